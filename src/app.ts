@@ -6,6 +6,10 @@ import mongoose from 'mongoose';
 import config from './config';
 import apiRouter from './routes/api';
 import { setupWebSocket } from './services/websocket.service';
+import { startReminderScheduler } from './services/reminderScheduler.service';
+import { startTrashRetentionJob } from './services/trash.service';
+import { startCalendarSync } from './services/calendarSync.service';
+import { startCalendarOutbox } from './services/calendarOutbox.service';
 import { errorHandler } from './middleware/errorHandler';
 import cookieParser from 'cookie-parser';
 
@@ -35,7 +39,8 @@ app.use(
   cors({
     origin: config.CLIENT_URL,
     methods: ['GET', 'POST', 'PUT', 'DELETE'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+    exposedHeaders: ['ETag'],
     credentials: true,
   }),
 );
@@ -77,6 +82,10 @@ app.use(errorHandler);
 const initializeApp = async () => {
   await connectToDatabase();
   setupWebSocket(io);
+  startReminderScheduler();
+  startTrashRetentionJob();
+  startCalendarSync();
+  startCalendarOutbox();
 };
 
 initializeApp();
@@ -16,6 +16,17 @@ interface Config {
   JWT_REFRESH_SECRET: string;
   JWT_ACCESS_EXPIRES_IN: number; // <<< Тип number
   JWT_REFRESH_EXPIRES_IN: number; // <<< Тип number
+  REMINDER_CHECK_INTERVAL_SECONDS: number;
+  DEFAULT_REMINDER_OFFSETS: number[]; // Минуты до дедлайна
+  TRASH_RETENTION_DAYS: number; // Сколько дней задача хранится в корзине
+  ATTACHMENTS_DIR: string; // Каталог файлов вложений (локальное хранилище)
+  ATTACHMENT_MAX_SIZE_MB: number;
+  ATTACHMENT_ALLOWED_TYPES: string[]; // MIME-типы; "image/*" — любой подтип
+  GOOGLE_CALENDAR_WEBHOOK_URL?: string; // Без него изменения из календаря не принимаются
+  // Календари пользователей (OAuth). Без любого из трех события идут только в общий календарь
+  GOOGLE_CLIENT_SECRET?: string;
+  GOOGLE_OAUTH_REDIRECT_URI?: string; // https://<api>/api/calendar/oauth/callback
+  CALENDAR_TOKEN_KEY?: Buffer; // Ключ AES-256 для OAuth-токенов пользователей (32 байта)
 }
 
 // --- Проверка и получение секретов ---
@@ -60,6 +71,52 @@ if (isNaN(refreshExpiresInEnv)) {
 }
 // -------------------------------------------------------------
 
+// --- Настройки напоминаний о дедлайнах (необязательные) ---
+const reminderIntervalEnv = Number(process.env.REMINDER_CHECK_INTERVAL_SECONDS);
+const finalReminderInterval =
+  isNaN(reminderIntervalEnv) || reminderIntervalEnv <= 0 ? 60 : reminderIntervalEnv;
+
+// Например "1440,60" — за сутки и за час
+const defaultReminderOffsets = (process.env.DEFAULT_REMINDER_OFFSETS || '1440,60')
+  .split(',')
+  .map((value) => Number(value.trim()))
+  .filter((value) => Number.isInteger(value) && value > 0);
+// ---------------------------------------------------------
+
+// --- Срок хранения корзины (необязательный) ---
+const trashRetentionEnv = Number(process.env.TRASH_RETENTION_DAYS);
+const finalTrashRetention =
+  isNaN(trashRetentionEnv) || trashRetentionEnv <= 0 ? 30 : trashRetentionEnv;
+// ---------------------------------------------
+
+// --- Вложения задач (необязательные) ---
+const attachmentMaxSizeEnv = Number(process.env.ATTACHMENT_MAX_SIZE_MB);
+const finalAttachmentMaxSize =
+  isNaN(attachmentMaxSizeEnv) || attachmentMaxSizeEnv <= 0 ? 10 : attachmentMaxSizeEnv;
+
+// application/json не подходит: такие тела забирает express.json с лимитом 10kb
+const attachmentAllowedTypes = (
+  process.env.ATTACHMENT_ALLOWED_TYPES ||
+  'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/markdown,text/csv,application/zip'
+)
+  .split(',')
+  .map((type) => type.trim().toLowerCase())
+  .filter(Boolean);
+// ---------------------------------------
+
+// --- Ключ шифрования токенов календаря (необязательный): 32 байта в base64 ---
+let calendarTokenKey: Buffer | undefined;
+if (process.env.CALENDAR_TOKEN_KEY) {
+  calendarTokenKey = Buffer.from(process.env.CALENDAR_TOKEN_KEY, 'base64');
+  if (calendarTokenKey.length !== 32) {
+    console.warn(
+      'WARN: CALENDAR_TOKEN_KEY must be 32 bytes in base64. Per-user calendars are disabled.',
+    );
+    calendarTokenKey = undefined;
+  }
+}
+// ---------------------------------------------------------------------------
+
 // --- Проверка остальных обязательных переменных из .env ---
 const requiredEnvVarsForCheck = [
   // Имена как в .env
@@ -96,6 +153,16 @@ const configValues: Config = {
   JWT_REFRESH_SECRET: jwtRefreshSecret, // Проверенная строка
   JWT_ACCESS_EXPIRES_IN: finalAccessExpiresIn, // <<< ЧИСЛО
   JWT_REFRESH_EXPIRES_IN: finalRefreshExpiresIn, // <<< ЧИСЛО
+  REMINDER_CHECK_INTERVAL_SECONDS: finalReminderInterval,
+  DEFAULT_REMINDER_OFFSETS: defaultReminderOffsets,
+  TRASH_RETENTION_DAYS: finalTrashRetention,
+  ATTACHMENTS_DIR: process.env.ATTACHMENTS_DIR || 'uploads/attachments',
+  ATTACHMENT_MAX_SIZE_MB: finalAttachmentMaxSize,
+  ATTACHMENT_ALLOWED_TYPES: attachmentAllowedTypes,
+  GOOGLE_CALENDAR_WEBHOOK_URL: process.env.GOOGLE_CALENDAR_WEBHOOK_URL || undefined,
+  GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || undefined,
+  GOOGLE_OAUTH_REDIRECT_URI: process.env.GOOGLE_OAUTH_REDIRECT_URI || undefined,
+  CALENDAR_TOKEN_KEY: calendarTokenKey,
 };
 // ---------------------------------------------------
 
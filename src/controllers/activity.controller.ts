@@ -0,0 +1,86 @@
+// src/controllers/activity.controller.ts
+import { Request, Response } from 'express';
+import mongoose, { Types, FilterQuery } from 'mongoose';
+import { Task } from '../models/task.model';
+import { Activity } from '../models/activity.model';
+import { IActivity } from '../types/activityTypes';
+import { resolveTaskAccess } from '../services/taskAccess.service';
+import { findBoardForMember } from '../services/boards.service';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Страница журнала от новых к старым; курсор — id последней полученной записи
+const sendActivityPage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  filter: FilterQuery<IActivity>,
+) => {
+  const limit = Math.min(
+    Math.max(Math.trunc(Number(req.query.limit)) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+  const cursor = req.query.cursor as string | undefined;
+  if (cursor && !mongoose.Types.ObjectId.isValid(cursor)) {
+    return res.status(400).json({ message: 'Invalid cursor' });
+  }
+
+  const pageFilter = cursor ? { ...filter, _id: { $lt: new Types.ObjectId(cursor) } } : filter;
+  const entries = await Activity.find(pageFilter)
+    .sort({ _id: -1 })
+    .limit(limit + 1);
+  const hasMore = entries.length > limit;
+  const pageEntries = hasMore ? entries.slice(0, limit) : entries;
+
+  res.status(200).json({
+    activity: pageEntries.map((entry) => entry.toJSON()),
+    nextCursor: hasMore ? pageEntries[pageEntries.length - 1].id : null,
+  });
+};
+
+// --- GET /api/tasks/:id/activity ---
+export const getTaskActivity = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const taskId = req.params.id;
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    return res.status(400).json({ message: 'Invalid Task ID' });
+  }
+
+  try {
+    const task = await Task.findById(taskId);
+    const access = task ? await resolveTaskAccess(task, userId) : null;
+    if (!task || !access?.canView) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    await sendActivityPage(req, res, { task: task._id });
+  } catch (err: any) {
+    console.error(`Error fetching activity for task ${taskId}:`, err);
+    res.status(500).json({ message: 'Failed to fetch task activity' });
+  }
+};
+
+// --- GET /api/boards/:id/activity ---
+export const getBoardActivity = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    await sendActivityPage(req, res, { board: access.board._id });
+  } catch (err: any) {
+    console.error(`Error fetching activity for board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to fetch board activity' });
+  }
+};
@@ -0,0 +1,109 @@
+// src/controllers/archive.controller.ts
+import { Request, Response } from 'express';
+import { findBoardForMember, hasRequiredRole } from '../services/boards.service';
+import { loadVisibleTask } from '../services/taskAccess.service';
+import {
+  archiveTask as applyArchive,
+  unarchiveTask as applyUnarchive,
+  archiveDoneTasks,
+} from '../services/archive.service';
+import { broadcastTaskUpdate } from '../services/websocket.service';
+import { HttpError } from '../middleware/errorHandler';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const DEFAULT_ARCHIVE_AFTER_DAYS = 14;
+
+// Задача и права на архивирование; ответ с ошибкой уже отправлен, если вернулся null
+const loadTaskForArchive = async (req: AuthenticatedRequest, res: Response) => {
+  const loaded = await loadVisibleTask(req, res);
+  if (!loaded) return null;
+  if (!loaded.access.canEditAllFields) {
+    res.status(403).json({ message: 'Forbidden: You cannot archive tasks on this board' });
+    return null;
+  }
+  return loaded.task;
+};
+
+// --- POST /api/tasks/:id/archive ---
+export const archiveTask = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const task = await loadTaskForArchive(req, res);
+    if (!task) return;
+    if (task.isHidden) {
+      return res.status(409).json({ message: 'Task is already archived' });
+    }
+
+    const archived = await applyArchive(task, userId);
+    console.log(`Task ${archived._id} archived by user ${userId}`);
+    broadcastTaskUpdate(archived);
+    res.status(200).json(archived.toJSON());
+  } catch (err: any) {
+    console.error(`Error archiving task ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to archive task' });
+  }
+};
+
+// --- POST /api/tasks/:id/unarchive ---
+export const unarchiveTask = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const task = await loadTaskForArchive(req, res);
+    if (!task) return;
+    if (!task.isHidden) {
+      return res.status(409).json({ message: 'Task is not archived' });
+    }
+
+    const unarchived = await applyUnarchive(task, userId);
+    console.log(`Task ${unarchived._id} unarchived by user ${userId}`);
+    broadcastTaskUpdate(unarchived);
+    res.status(200).json(unarchived.toJSON());
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error unarchiving task ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to unarchive task' });
+  }
+};
+
+// --- POST /api/boards/:id/archive-done ---
+// Тело: { olderThanDays? } — выполненные задачи, не менявшиеся столько дней (по умолчанию 14)
+export const archiveBoardDoneTasks = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const olderThanDays = req.body.olderThanDays ?? DEFAULT_ARCHIVE_AFTER_DAYS;
+  if (!Number.isInteger(olderThanDays) || olderThanDays < 0) {
+    return res.status(400).json({ message: 'olderThanDays must be a non-negative integer' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden: Viewers cannot archive tasks' });
+    }
+
+    const archived = await archiveDoneTasks(access.board, olderThanDays, userId);
+    archived.forEach((task) => broadcastTaskUpdate(task));
+    res.status(200).json({
+      archivedCount: archived.length,
+      archivedTaskIds: archived.map((task) => task.id),
+    });
+  } catch (err: any) {
+    console.error(`Error archiving done tasks on board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to archive done tasks' });
+  }
+};
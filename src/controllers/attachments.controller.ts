@@ -0,0 +1,214 @@
+// src/controllers/attachments.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { randomUUID } from 'node:crypto';
+import { ATTACHMENTS_MAX_COUNT } from '../models/task.model';
+import { User } from '../models/user.model';
+import { ITask, IAttachment } from '../types/taskTypes';
+import { loadVisibleTask } from '../services/taskAccess.service';
+import { getAttachmentStorage, removeAttachmentFiles } from '../services/attachmentStorage.service';
+import { broadcastTaskUpdate } from '../services/websocket.service';
+import { getUploadMimeType } from '../middleware/uploadMiddleware';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const findAttachment = (task: ITask, attachmentId: string): IAttachment | undefined =>
+  task.attachments.find((attachment) => attachment._id.toString() === attachmentId);
+
+// Имя файла без пути и управляющих символов
+const sanitizeFileName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .trim()
+    .slice(0, 255);
+  return name && name !== '.' && name !== '..' ? name : null;
+};
+
+const handleError = (res: Response, err: any, action: string) => {
+  console.error(`Attachments Error (${action}):`, err);
+  if (err.name === 'ValidationError') {
+    return res.status(400).json({ message: err.message });
+  }
+  if (!res.headersSent) {
+    res.status(500).json({ message: `Failed to ${action}` });
+  }
+};
+
+// --- GET /api/tasks/:id/attachments ---
+export const getAttachments = async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    res.status(200).json(loaded.task.toJSON().attachments);
+  } catch (err: any) {
+    handleError(res, err, 'fetch attachments');
+  }
+};
+
+// Задача, к которой пользователь может приложить еще один файл; отвечает 4xx сам и возвращает null
+const loadTaskForUpload = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<ITask | null> => {
+  const loaded = await loadVisibleTask(req, res);
+  if (!loaded) return null;
+  // Прикладывать файлы может и исполнитель: скриншоты и отчеты — часть работы над задачей
+  if (!loaded.access.canEdit) {
+    res.status(403).json({ message: 'Forbidden: You cannot attach files to this task' });
+    return null;
+  }
+  if (loaded.task.attachments.length >= ATTACHMENTS_MAX_COUNT) {
+    res
+      .status(400)
+      .json({ message: `A task cannot have more than ${ATTACHMENTS_MAX_COUNT} attachments` });
+    return null;
+  }
+  return loaded.task;
+};
+
+// Права на загрузку проверяются до чтения тела (parseAttachmentUpload):
+// файл до ATTACHMENT_MAX_SIZE_MB не принимается от того, кому его некуда приложить
+export const authorizeAttachmentUpload = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!req.userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  if (!sanitizeFileName(req.query.filename)) {
+    return res.status(400).json({ message: 'filename query parameter is required' });
+  }
+  try {
+    if (await loadTaskForUpload(req, res)) next();
+  } catch (err: any) {
+    handleError(res, err, 'upload attachment');
+  }
+};
+
+// --- POST /api/tasks/:id/attachments?filename=<имя> ---
+// Тело — содержимое файла, Content-Type — его MIME-тип (см. parseAttachmentUpload)
+export const uploadAttachment = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const name = sanitizeFileName(req.query.filename);
+  if (!name) {
+    return res.status(400).json({ message: 'filename query parameter is required' });
+  }
+  const data: Buffer = req.body;
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    return res.status(400).json({ message: 'Uploaded file is empty' });
+  }
+
+  try {
+    // Перечитываем задачу: пока шел файл, ее могли изменить
+    const task = await loadTaskForUpload(req, res);
+    if (!task) return;
+    const uploader = await User.findById(userId);
+    if (!uploader) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+
+    const storageKey = `${task._id}/${randomUUID()}`;
+    await getAttachmentStorage().save(storageKey, data);
+    task.attachments.push({
+      _id: new Types.ObjectId(),
+      name,
+      mimeType: getUploadMimeType(req),
+      size: data.length,
+      storageKey,
+      uploadedBy: { id: uploader._id.toString(), name: uploader.name, email: uploader.email },
+      uploadedAt: new Date(),
+    });
+    try {
+      const savedTask = await task.save();
+      broadcastTaskUpdate(savedTask);
+      const { attachments } = savedTask.toJSON();
+      res.status(201).json(attachments[attachments.length - 1]);
+    } catch (err) {
+      // Метаданные не сохранились — файл без задачи не нужен
+      await removeAttachmentFiles([storageKey]);
+      throw err;
+    }
+  } catch (err: any) {
+    handleError(res, err, 'upload attachment');
+  }
+};
+
+// --- GET /api/tasks/:id/attachments/:attachmentId ---
+export const downloadAttachment = async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const attachment = findAttachment(loaded.task, req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+    const stream = await getAttachmentStorage().open(attachment.storageKey);
+    if (!stream) {
+      console.error(`Attachments: File ${attachment.storageKey} is missing in storage`);
+      return res.status(404).json({ message: 'Attachment file not found' });
+    }
+
+    // Всегда скачивание, а не показ в браузере: загруженный HTML не выполнится на нашем домене
+    res.attachment(attachment.name);
+    res.set({
+      'Content-Type': attachment.mimeType,
+      'Content-Length': String(attachment.size),
+      'X-Content-Type-Options': 'nosniff',
+    });
+    stream.on('error', (err) => {
+      handleError(res, err, 'download attachment');
+      res.destroy();
+    });
+    stream.pipe(res);
+  } catch (err: any) {
+    handleError(res, err, 'download attachment');
+  }
+};
+
+// --- DELETE /api/tasks/:id/attachments/:attachmentId ---
+export const deleteAttachment = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    const attachment = findAttachment(task, req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+    // Свое вложение удаляет автор, любое — участник с правом правки задачи
+    if (!access.canEditAllFields && attachment.uploadedBy.id.toString() !== userId) {
+      return res.status(403).json({ message: 'Forbidden: You cannot delete this attachment' });
+    }
+
+    task.attachments = task.attachments.filter(
+      (item) => item._id.toString() !== req.params.attachmentId,
+    );
+    const savedTask = await task.save();
+    await removeAttachmentFiles([attachment.storageKey]);
+    broadcastTaskUpdate(savedTask);
+    res
+      .status(200)
+      .json({ message: 'Attachment deleted', deletedAttachmentId: req.params.attachmentId });
+  } catch (err: any) {
+    handleError(res, err, 'delete attachment');
+  }
+};
@@ -0,0 +1,392 @@
+// src/controllers/boards.controller.ts
+import { Request, Response } from 'express';
+import mongoose, { Types } from 'mongoose';
+import { Board } from '../models/board.model';
+import { Task } from '../models/task.model';
+import { Comment } from '../models/comment.model';
+import { Activity } from '../models/activity.model';
+import { CalendarFeed } from '../models/calendarFeed.model';
+import { User } from '../models/user.model';
+import { IBoard, BoardRole, BOARD_ROLES } from '../types/boardTypes';
+import { findBoardForMember, hasRequiredRole } from '../services/boards.service';
+import { removeTasksFromCalendar } from '../services/tasks.service';
+import { removeAttachmentFiles } from '../services/attachmentStorage.service';
+import { getWorkflow, parseWorkflowDefinition } from '../services/workflow.service';
+import { HttpError } from '../middleware/errorHandler';
+import {
+  broadcastTaskDelete,
+  removeUserFromBoardRoom,
+  closeBoardRoom,
+} from '../services/websocket.service';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+// Роли, которые можно выдать через API (владелец у доски всегда один)
+const ASSIGNABLE_ROLES: BoardRole[] = BOARD_ROLES.filter((role) => role !== 'owner');
+
+// Доска с данными участников для ответа клиенту
+const toBoardResponse = async (board: IBoard) => {
+  await board.populate('members.user', 'name email avatar');
+  const boardObject = board.toJSON();
+  boardObject.members = board.members.map((member: any) => ({
+    id: member.user?._id?.toString() ?? member.user?.toString(),
+    name: member.user?.name,
+    email: member.user?.email,
+    avatar: member.user?.avatar,
+    role: member.role,
+    addedAt: member.addedAt,
+  }));
+  return boardObject;
+};
+
+// --- GET /api/boards ---
+export const getBoards = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const boards = await Board.find({ 'members.user': new Types.ObjectId(userId) }).sort({
+      createdAt: 1,
+    });
+    const response = await Promise.all(boards.map((board) => toBoardResponse(board)));
+    res.status(200).json(response);
+  } catch (err: any) {
+    console.error(`Error fetching boards for user ${userId}:`, err);
+    res.status(500).json({ message: 'Failed to fetch boards' });
+  }
+};
+
+// --- POST /api/boards ---
+export const createBoard = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { name, description } = req.body;
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ message: 'Board name is required' });
+  }
+
+  try {
+    const ownerId = new Types.ObjectId(userId);
+    const board = await Board.create({
+      name,
+      description,
+      owner: ownerId,
+      members: [{ user: ownerId, role: 'owner' }],
+    });
+    console.log(`Board ${board._id} created by user ${userId}`);
+    res.status(201).json(await toBoardResponse(board));
+  } catch (err: any) {
+    console.error('Error creating board:', err);
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: 'Failed to create board' });
+  }
+};
+
+// --- GET /api/boards/:id ---
+export const getBoard = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    res.status(200).json(await toBoardResponse(access.board));
+  } catch (err: any) {
+    console.error(`Error fetching board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to fetch board' });
+  }
+};
+
+// --- PUT /api/boards/:id ---
+export const updateBoard = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'admin')) {
+      return res.status(403).json({ message: 'Forbidden: Only board admins can edit the board' });
+    }
+
+    const { name, description } = req.body;
+    if (name !== undefined) access.board.name = name;
+    if (description !== undefined) access.board.description = description;
+    await access.board.save();
+
+    res.status(200).json(await toBoardResponse(access.board));
+  } catch (err: any) {
+    console.error(`Error updating board ${req.params.id}:`, err);
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: 'Failed to update board' });
+  }
+};
+
+// --- DELETE /api/boards/:id ---
+export const deleteBoard = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (access.role !== 'owner') {
+      return res.status(403).json({ message: 'Forbidden: Only the board owner can delete it' });
+    }
+    if (access.board.isPersonal) {
+      return res.status(400).json({ message: 'Personal board cannot be deleted' });
+    }
+
+    // Удаляем задачи доски вместе с событиями календаря и файлами вложений.
+    // Задачи из корзины обычное чтение не видит: их события уже удалены, а файлы — нет
+    const boardTasks = await Task.find({ board: access.board._id });
+    const trashedTasks = await Task.find({
+      board: access.board._id,
+      deletedAt: { $ne: null },
+    }).select('attachments');
+    await removeTasksFromCalendar(boardTasks);
+    await Task.deleteMany({ board: access.board._id });
+    await removeAttachmentFiles(
+      [...boardTasks, ...trashedTasks].flatMap((task) =>
+        task.attachments.map((attachment) => attachment.storageKey),
+      ),
+    );
+    await Comment.deleteMany({ board: access.board._id });
+    await Activity.deleteMany({ board: access.board._id });
+    await CalendarFeed.deleteMany({ board: access.board._id });
+    boardTasks.forEach((task) => broadcastTaskDelete(task));
+
+    await access.board.deleteOne();
+    closeBoardRoom(req.params.id);
+    console.log(
+      `Board ${req.params.id} deleted by user ${userId} (${boardTasks.length} tasks removed)`,
+    );
+    res.status(200).json({ message: 'Board deleted successfully', deletedBoardId: req.params.id });
+  } catch (err: any) {
+    console.error(`Error deleting board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to delete board' });
+  }
+};
+
+// --- POST /api/boards/:id/members ---
+export const addBoardMember = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { email } = req.body;
+  const role: BoardRole = req.body.role || 'member';
+  if (!email) {
+    return res.status(400).json({ message: 'Member email is required' });
+  }
+  if (!ASSIGNABLE_ROLES.includes(role)) {
+    return res.status(400).json({ message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+  }
+
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'admin')) {
+      return res.status(403).json({ message: 'Forbidden: Only board admins can add members' });
+    }
+    // Выдавать роль admin может только владелец
+    if (role === 'admin' && access.role !== 'owner') {
+      return res.status(403).json({ message: 'Forbidden: Only the board owner can add admins' });
+    }
+    if (access.board.isPersonal) {
+      return res.status(400).json({ message: 'Personal board cannot be shared' });
+    }
+
+    const memberUser = await User.findOne({ email });
+    if (!memberUser) {
+      return res.status(400).json({ message: `User with email ${email} not found` });
+    }
+    const memberId = memberUser._id.toString();
+    if (access.board.members.some((m) => m.user.toString() === memberId)) {
+      return res.status(409).json({ message: 'User is already a member of this board' });
+    }
+
+    access.board.members.push({ user: new Types.ObjectId(memberId), role });
+    await access.board.save();
+    console.log(`User ${memberId} added to board ${req.params.id} as ${role} by ${userId}`);
+
+    res.status(201).json(await toBoardResponse(access.board));
+  } catch (err: any) {
+    console.error(`Error adding member to board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to add board member' });
+  }
+};
+
+// --- PUT /api/boards/:id/members/:userId ---
+export const updateBoardMember = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const memberId = req.params.userId;
+  const role: BoardRole = req.body.role;
+  if (!mongoose.Types.ObjectId.isValid(memberId)) {
+    return res.status(400).json({ message: 'Invalid user ID' });
+  }
+  if (!ASSIGNABLE_ROLES.includes(role)) {
+    return res.status(400).json({ message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+  }
+
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    const member = access.board.members.find((m) => m.user.toString() === memberId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (member.role === 'owner') {
+      return res.status(400).json({ message: 'Board owner role cannot be changed' });
+    }
+    // Админ управляет только участниками и наблюдателями, владелец — всеми
+    const canManage =
+      access.role === 'owner' ||
+      (access.role === 'admin' && member.role !== 'admin' && role !== 'admin');
+    if (!canManage) {
+      return res.status(403).json({ message: 'Forbidden: Not enough rights to change this role' });
+    }
+
+    member.role = role;
+    await access.board.save();
+    console.log(`Member ${memberId} of board ${req.params.id} is now ${role}`);
+
+    res.status(200).json(await toBoardResponse(access.board));
+  } catch (err: any) {
+    console.error(`Error updating member of board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to update board member' });
+  }
+};
+
+// --- DELETE /api/boards/:id/members/:userId ---
+export const removeBoardMember = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const memberId = req.params.userId;
+  if (!mongoose.Types.ObjectId.isValid(memberId)) {
+    return res.status(400).json({ message: 'Invalid user ID' });
+  }
+
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    const member = access.board.members.find((m) => m.user.toString() === memberId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (member.role === 'owner') {
+      return res.status(400).json({ message: 'Board owner cannot be removed' });
+    }
+    // Любой участник может покинуть доску сам
+    const isSelf = memberId === userId;
+    const canManage =
+      access.role === 'owner' || (access.role === 'admin' && member.role !== 'admin');
+    if (!isSelf && !canManage) {
+      return res
+        .status(403)
+        .json({ message: 'Forbidden: Not enough rights to remove this member' });
+    }
+
+    access.board.members = access.board.members.filter((m) => m.user.toString() !== memberId);
+    await access.board.save();
+    await removeUserFromBoardRoom(req.params.id, memberId);
+    console.log(`Member ${memberId} removed from board ${req.params.id} by ${userId}`);
+
+    res.status(200).json(await toBoardResponse(access.board));
+  } catch (err: any) {
+    console.error(`Error removing member from board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to remove board member' });
+  }
+};
+
+// --- GET /api/boards/:id/workflow ---
+export const getBoardWorkflow = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    res.status(200).json(getWorkflow(access.board));
+  } catch (err: any) {
+    console.error(`Error fetching workflow of board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to fetch board workflow' });
+  }
+};
+
+// --- PUT /api/boards/:id/workflow ---
+export const updateBoardWorkflow = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'admin')) {
+      return res
+        .status(403)
+        .json({ message: 'Forbidden: Only board admins can change the workflow' });
+    }
+
+    const workflow = parseWorkflowDefinition(req.body);
+
+    // Нельзя убрать статус, в котором еще есть задачи
+    const usedStatuses: string[] = await Task.distinct('status', { board: access.board._id });
+    const keys = workflow.statuses.map((status) => status.key);
+    const orphaned = usedStatuses.filter((status) => !keys.includes(status));
+    if (orphaned.length > 0) {
+      return res.status(409).json({
+        message: `Statuses still in use by tasks: ${orphaned.join(', ')}`,
+        code: 'STATUS_IN_USE',
+        statuses: orphaned,
+      });
+    }
+
+    access.board.workflow = workflow;
+    await access.board.save();
+    console.log(`Workflow of board ${req.params.id} updated by user ${userId}`);
+
+    res.status(200).json(getWorkflow(access.board));
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error updating workflow of board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to update board workflow' });
+  }
+};
@@ -0,0 +1,261 @@
+// src/controllers/calendar.controller.ts
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { CalendarSyncState } from '../models/calendarSync.model';
+import config from '../config';
+import { handleCalendarNotification } from '../services/calendarSync.service';
+import { getCalendarOutboxStatus } from '../services/calendarOutbox.service';
+import {
+  buildCalendarConnectUrl,
+  connectUserCalendar,
+  listUserCalendars,
+  selectUserCalendar,
+  disconnectUserCalendar,
+  getCalendarIntegrationStatus,
+  CALENDAR_CONNECT_TTL_SECONDS,
+} from '../services/userCalendar.service';
+import {
+  getUserFeeds,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  renderCalendarFeed,
+} from '../services/calendarFeed.service';
+import { User } from '../models/user.model';
+import { HttpError } from '../middleware/errorHandler';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const handleError = (res: Response, err: any, action: string) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ message: err.message, ...err.details });
+  }
+  console.error(`Calendar Error (${action}):`, err);
+  res.status(500).json({ message: `Failed to ${action}` });
+};
+
+// nonce подключения календаря: браузер должен вернуться из Google с тем же nonce, что в state
+const CONNECT_NONCE_COOKIE = 'calendarConnectNonce';
+const connectNonceCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const, // strict не пришлет cookie при редиректе из Google
+  path: '/api/calendar/oauth',
+};
+
+// Куда вернуть браузер после согласия Google: первый адрес клиента
+const buildClientRedirect = (result: 'connected' | 'error', message?: string) => {
+  const url = new URL(config.CLIENT_URL[0]);
+  url.searchParams.set('calendar', result);
+  if (message) url.searchParams.set('message', message);
+  return url.toString();
+};
+
+// --- POST /api/calendar/webhook ---
+// Push-уведомления Google Calendar. Без JWT: подлинность проверяется по секрету канала
+export const receiveCalendarNotification = async (req: Request, res: Response) => {
+  try {
+    const accepted = await handleCalendarNotification({
+      channelId: req.get('X-Goog-Channel-ID'),
+      token: req.get('X-Goog-Channel-Token'),
+      resourceState: req.get('X-Goog-Resource-State'),
+    });
+    if (!accepted) {
+      console.warn(`Calendar webhook: Unknown channel ${req.get('X-Goog-Channel-ID')}`);
+      return res.status(403).json({ message: 'Unknown notification channel' });
+    }
+    res.status(200).end();
+  } catch (err: any) {
+    console.error('Error handling calendar notification:', err);
+    res.status(500).json({ message: 'Failed to handle calendar notification' });
+  }
+};
+
+// --- GET /api/calendar/sync/status ---
+// Задания очереди по задачам пользователя (ожидающие и проваленные) и время последней входящей синхронизации
+export const getCalendarSyncStatus = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [outbox, state, personal] = await Promise.all([
+      getCalendarOutboxStatus(req.userId!),
+      CalendarSyncState.findOne({ owner: null, calendarId: config.GOOGLE_SHARED_CALENDAR_ID }),
+      CalendarSyncState.findOne({ owner: req.userId }),
+    ]);
+    res.status(200).json({
+      outbox,
+      inbound: {
+        enabled: Boolean(config.GOOGLE_CALENDAR_WEBHOOK_URL),
+        lastSyncedAt: state?.lastSyncedAt ?? null,
+        channelExpiresAt: state?.channelExpiresAt ?? null,
+        // Личный календарь пользователя, если подключен
+        personal: personal
+          ? {
+              calendarId: personal.calendarId,
+              lastSyncedAt: personal.lastSyncedAt ?? null,
+              channelExpiresAt: personal.channelExpiresAt ?? null,
+            }
+          : null,
+      },
+    });
+  } catch (err: any) {
+    console.error('Error fetching calendar sync status:', err);
+    res.status(500).json({ message: 'Failed to fetch calendar sync status' });
+  }
+};
+
+// --- GET /api/calendar/status ---
+// Подключен ли личный Google Calendar пользователя (CalendarState.isIntegrated на клиенте)
+export const getCalendarStatus = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(200).json(await getCalendarIntegrationStatus(req.userId!));
+  } catch (err: any) {
+    handleError(res, err, 'fetch calendar status');
+  }
+};
+
+// --- GET /api/calendar/connect ---
+// Ссылка на согласие Google; клиент открывает ее в браузере
+export const startCalendarConnect = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    const { url, nonce } = buildCalendarConnectUrl(user);
+    res.cookie(CONNECT_NONCE_COOKIE, nonce, {
+      ...connectNonceCookieOptions,
+      maxAge: CALENDAR_CONNECT_TTL_SECONDS * 1000,
+    });
+    res.status(200).json({ url });
+  } catch (err: any) {
+    handleError(res, err, 'start calendar connection');
+  }
+};
+
+// --- GET /api/calendar/oauth/callback ---
+// Редирект Google после согласия. Без JWT: пользователь определяется по подписанному state,
+// браузер — по cookie с nonce из GET /api/calendar/connect
+export const finishCalendarConnect = async (req: Request, res: Response) => {
+  const { code, state, error } = req.query;
+  const nonce = req.cookies?.[CONNECT_NONCE_COOKIE];
+  res.clearCookie(CONNECT_NONCE_COOKIE, connectNonceCookieOptions);
+  if (typeof error === 'string') {
+    return res.redirect(buildClientRedirect('error', error));
+  }
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    return res.status(400).json({ message: 'code and state are required' });
+  }
+  try {
+    await connectUserCalendar(state, code, typeof nonce === 'string' ? nonce : undefined);
+    res.redirect(buildClientRedirect('connected'));
+  } catch (err: any) {
+    if (!(err instanceof HttpError)) {
+      console.error('Calendar Error (finish calendar connection):', err);
+    }
+    res.redirect(buildClientRedirect('error', err instanceof HttpError ? err.message : undefined));
+  }
+};
+
+// --- GET /api/calendar/calendars ---
+export const getUserCalendars = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(200).json(await listUserCalendars(req.userId!));
+  } catch (err: any) {
+    handleError(res, err, 'list calendars');
+  }
+};
+
+// --- PUT /api/calendar/calendars/selected ---
+// { calendarId } — календарь для событий задач; события уже созданных задач переезжают
+export const selectCalendar = async (req: AuthenticatedRequest, res: Response) => {
+  const { calendarId } = req.body;
+  if (typeof calendarId !== 'string' || !calendarId.trim()) {
+    return res.status(400).json({ message: 'calendarId is required' });
+  }
+  try {
+    await selectUserCalendar(req.userId!, calendarId.trim());
+    res.status(200).json(await getCalendarIntegrationStatus(req.userId!));
+  } catch (err: any) {
+    handleError(res, err, 'select calendar');
+  }
+};
+
+// --- DELETE /api/calendar/connection ---
+// События задач убираются из личного календаря и возвращаются в общий
+export const disconnectCalendar = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await disconnectUserCalendar(req.userId!);
+    res.status(200).json(await getCalendarIntegrationStatus(req.userId!));
+  } catch (err: any) {
+    handleError(res, err, 'disconnect calendar');
+  }
+};
+
+// Ссылка на ленту: адрес этого же API, по которому пришел запрос
+const buildFeedUrl = (req: Request, token: string) =>
+  `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics`;
+
+// --- GET /api/calendar/feeds ---
+// Ленты пользователя; сами ссылки не возвращаются (токен показывается один раз)
+export const getCalendarFeeds = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const feeds = await getUserFeeds(req.userId!);
+    res.status(200).json(feeds.map((feed) => feed.toJSON()));
+  } catch (err: any) {
+    handleError(res, err, 'fetch calendar feeds');
+  }
+};
+
+// --- POST /api/calendar/feeds ---
+// { boardId? } — без доски лента содержит задачи, назначенные пользователю
+export const createFeed = async (req: AuthenticatedRequest, res: Response) => {
+  const { boardId } = req.body;
+  if (boardId !== undefined && (typeof boardId !== 'string' || !Types.ObjectId.isValid(boardId))) {
+    return res.status(400).json({ message: 'Invalid Board ID' });
+  }
+  try {
+    const { feed, token } = await createCalendarFeed(req.userId!, boardId);
+    const url = buildFeedUrl(req, token);
+    res.status(201).json({
+      feed: feed.toJSON(),
+      url,
+      webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    });
+  } catch (err: any) {
+    handleError(res, err, 'create calendar feed');
+  }
+};
+
+// --- DELETE /api/calendar/feeds/:id ---
+export const revokeFeed = async (req: AuthenticatedRequest, res: Response) => {
+  if (!Types.ObjectId.isValid(req.params.id)) {
+    return res.status(400).json({ message: 'Invalid Feed ID' });
+  }
+  try {
+    await revokeCalendarFeed(req.userId!, req.params.id);
+    res.status(200).json({ message: 'Calendar feed revoked', revokedFeedId: req.params.id });
+  } catch (err: any) {
+    handleError(res, err, 'revoke calendar feed');
+  }
+};
+
+// --- GET /api/calendar/:token.ics ---
+// Подписка для Outlook / Apple Calendar. Без JWT: доступ по токену из ссылки
+export const getCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    const ics = await renderCalendarFeed(req.params.token);
+    if (!ics) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+    res
+      .status(200)
+      .set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="tasks.ics"',
+        'Cache-Control': 'private, max-age=300',
+      })
+      .send(ics);
+  } catch (err: any) {
+    handleError(res, err, 'render calendar feed');
+  }
+};
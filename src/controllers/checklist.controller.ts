@@ -0,0 +1,238 @@
+// src/controllers/checklist.controller.ts
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { CHECKLIST_MAX_ITEMS } from '../models/task.model';
+import { User } from '../models/user.model';
+import { ITask, IAssignee, IChecklistItem } from '../types/taskTypes';
+import { loadVisibleTask } from '../services/taskAccess.service';
+import { broadcastTaskUpdate } from '../services/websocket.service';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const findItem = (task: ITask, itemId: string): IChecklistItem | undefined =>
+  task.checklist.find((item) => item._id.toString() === itemId);
+
+// Исполнитель пункта ищется по email так же, как исполнитель задачи
+const resolveItemAssignee = async (email: string): Promise<IAssignee | null> => {
+  const user = await User.findOne({ email });
+  return user ? { id: user._id.toString(), name: user.name, email: user.email } : null;
+};
+
+// Сохраняет задачу и рассылает ее по каналу TASK_UPDATED
+const saveAndBroadcast = async (task: ITask, res: Response, status = 200) => {
+  const savedTask = await task.save();
+  broadcastTaskUpdate(savedTask);
+  res.status(status).json(savedTask.toJSON());
+};
+
+const handleError = (res: Response, err: any, action: string) => {
+  console.error(`Checklist Error (${action}):`, err);
+  if (err.name === 'ValidationError') {
+    return res.status(400).json({ message: err.message });
+  }
+  res.status(500).json({ message: `Failed to ${action}` });
+};
+
+// --- POST /api/tasks/:id/checklist ---
+export const addChecklistItem = async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { text, assignee } = req.body;
+  if (typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ message: 'Checklist item text is required' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    if (!access.canEditAllFields) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this checklist' });
+    }
+    if (task.checklist.length >= CHECKLIST_MAX_ITEMS) {
+      return res
+        .status(400)
+        .json({ message: `Checklist cannot contain more than ${CHECKLIST_MAX_ITEMS} items` });
+    }
+
+    let itemAssignee: IAssignee | undefined;
+    if (assignee?.email) {
+      const resolved = await resolveItemAssignee(assignee.email);
+      if (!resolved) {
+        return res
+          .status(400)
+          .json({ message: `Assignee user with email ${assignee.email} not found` });
+      }
+      itemAssignee = resolved;
+    }
+
+    const nextOrder = task.checklist.reduce((max, item) => Math.max(max, item.order), -1) + 1;
+    task.checklist.push({
+      _id: new Types.ObjectId(),
+      text,
+      done: false,
+      order: nextOrder,
+      assignee: itemAssignee,
+    });
+    await saveAndBroadcast(task, res, 201);
+  } catch (err: any) {
+    handleError(res, err, 'add checklist item');
+  }
+};
+
+// --- PUT /api/tasks/:id/checklist/:itemId ---
+// Меняет текст, отметку и/или исполнителя пункта
+export const updateChecklistItem = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { text, done, assignee } = req.body;
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    const item = findItem(task, req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    // Отмечать пункт может и исполнитель задачи, и исполнитель самого пункта
+    const editsContent = text !== undefined || assignee !== undefined;
+    const canToggle =
+      access.canEditAllFields || access.isAssignee || item.assignee?.id?.toString() === userId;
+    if ((editsContent && !access.canEditAllFields) || (done !== undefined && !canToggle)) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this checklist item' });
+    }
+
+    if (text !== undefined) {
+      if (typeof text !== 'string' || !text.trim()) {
+        return res.status(400).json({ message: 'Checklist item text cannot be empty' });
+      }
+      item.text = text;
+    }
+    if (assignee !== undefined) {
+      if (assignee === null) {
+        item.assignee = undefined;
+      } else {
+        // Без email поиск { email: undefined } нашел бы первого попавшегося пользователя
+        if (typeof assignee?.email !== 'string' || !assignee.email) {
+          return res.status(400).json({ message: 'assignee.email is required' });
+        }
+        const resolved = await resolveItemAssignee(assignee.email);
+        if (!resolved) {
+          return res
+            .status(400)
+            .json({ message: `Assignee user with email ${assignee.email} not found` });
+        }
+        item.assignee = resolved;
+      }
+    }
+    if (done !== undefined) {
+      item.done = Boolean(done);
+      item.doneAt = item.done ? new Date() : undefined;
+    }
+
+    await saveAndBroadcast(task, res);
+  } catch (err: any) {
+    handleError(res, err, 'update checklist item');
+  }
+};
+
+// --- POST /api/tasks/:id/checklist/:itemId/toggle ---
+export const toggleChecklistItem = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    const item = findItem(task, req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+    const canToggle =
+      access.canEditAllFields || access.isAssignee || item.assignee?.id?.toString() === userId;
+    if (!canToggle) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this checklist item' });
+    }
+
+    item.done = !item.done;
+    item.doneAt = item.done ? new Date() : undefined;
+    await saveAndBroadcast(task, res);
+  } catch (err: any) {
+    handleError(res, err, 'toggle checklist item');
+  }
+};
+
+// --- PUT /api/tasks/:id/checklist/order ---
+// itemIds — все пункты чек-листа в новом порядке
+export const reorderChecklist = async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { itemIds } = req.body;
+  if (!Array.isArray(itemIds)) {
+    return res.status(400).json({ message: 'itemIds must be an array' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    if (!access.canEditAllFields) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this checklist' });
+    }
+
+    const currentIds = task.checklist.map((item) => item._id.toString());
+    const isSameSet =
+      itemIds.length === currentIds.length &&
+      new Set(itemIds).size === itemIds.length &&
+      itemIds.every((id: string) => currentIds.includes(id));
+    if (!isSameSet) {
+      return res
+        .status(400)
+        .json({ message: 'itemIds must contain every checklist item exactly once' });
+    }
+
+    itemIds.forEach((id: string, index: number) => {
+      findItem(task, id)!.order = index;
+    });
+    task.checklist.sort((a, b) => a.order - b.order);
+    await saveAndBroadcast(task, res);
+  } catch (err: any) {
+    handleError(res, err, 'reorder checklist');
+  }
+};
+
+// --- DELETE /api/tasks/:id/checklist/:itemId ---
+export const deleteChecklistItem = async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    if (!access.canEditAllFields) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this checklist' });
+    }
+    const item = findItem(task, req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    task.checklist = task.checklist.filter((i) => i._id.toString() !== req.params.itemId);
+    await saveAndBroadcast(task, res);
+  } catch (err: any) {
+    handleError(res, err, 'delete checklist item');
+  }
+};
@@ -0,0 +1,191 @@
+// src/controllers/comments.controller.ts
+import { Request, Response } from 'express';
+import mongoose, { Types } from 'mongoose';
+import { Comment, COMMENT_MAX_LENGTH } from '../models/comment.model';
+import { User } from '../models/user.model';
+import { loadVisibleTask } from '../services/taskAccess.service';
+import { hasRequiredRole } from '../services/boards.service';
+import { broadcastCommentEvent } from '../services/websocket.service';
+import { notifyCommentAdded } from '../services/notification.service';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const validateBody = (body: unknown): string | null => {
+  if (typeof body !== 'string' || !body.trim()) {
+    return 'Comment body is required';
+  }
+  if (body.length > COMMENT_MAX_LENGTH) {
+    return `Comment body must be at most ${COMMENT_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+// --- GET /api/tasks/:id/comments ---
+export const getComments = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const limit = Math.min(
+    Math.max(Math.trunc(Number(req.query.limit)) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+  const cursor = req.query.cursor as string | undefined;
+  if (cursor && !mongoose.Types.ObjectId.isValid(cursor)) {
+    return res.status(400).json({ message: 'Invalid cursor' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+
+    // Курсор — id последнего полученного комментария, порядок — от старых к новым
+    const filter = { task: loaded.task._id };
+    const pageFilter = cursor ? { ...filter, _id: { $gt: new Types.ObjectId(cursor) } } : filter;
+    const [comments, total] = await Promise.all([
+      Comment.find(pageFilter)
+        .sort({ _id: 1 })
+        .limit(limit + 1),
+      Comment.countDocuments(filter),
+    ]);
+    const hasMore = comments.length > limit;
+    const pageComments = hasMore ? comments.slice(0, limit) : comments;
+
+    res.status(200).json({
+      comments: pageComments.map((comment) => comment.toJSON()),
+      nextCursor: hasMore ? pageComments[pageComments.length - 1].id : null,
+      total,
+    });
+  } catch (err: any) {
+    console.error(`Error fetching comments for task ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to fetch comments' });
+  }
+};
+
+// --- POST /api/tasks/:id/comments ---
+export const createComment = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const validationError = validateBody(req.body.body);
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+
+    // Автор берется из User так же, как assignee при создании задачи
+    const author = await User.findById(userId);
+    if (!author) {
+      return res.status(401).json({ message: 'User not found in DB' });
+    }
+
+    const comment = await Comment.create({
+      task: loaded.task._id,
+      board: loaded.task.board,
+      author: { id: author._id, name: author.name, email: author.email },
+      body: req.body.body,
+    });
+    console.log(`Comment ${comment._id} added to task ${req.params.id} by user ${userId}`);
+
+    broadcastCommentEvent('COMMENT_ADDED', loaded.task, comment.toJSON());
+    await notifyCommentAdded(loaded.task, comment);
+    res.status(201).json(comment.toJSON());
+  } catch (err: any) {
+    console.error(`Error creating comment for task ${req.params.id}:`, err);
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: 'Failed to create comment' });
+  }
+};
+
+// --- PUT /api/tasks/:id/comments/:commentId ---
+export const updateComment = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { commentId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(commentId)) {
+    return res.status(400).json({ message: 'Invalid Comment ID' });
+  }
+  const validationError = validateBody(req.body.body);
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+
+    const comment = await Comment.findOne({ _id: commentId, task: loaded.task._id });
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    // Редактировать может только автор
+    if (comment.author.id.toString() !== userId) {
+      return res.status(403).json({ message: 'Forbidden: You can only edit your own comments' });
+    }
+
+    comment.body = req.body.body;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    broadcastCommentEvent('COMMENT_UPDATED', loaded.task, comment.toJSON());
+    res.status(200).json(comment.toJSON());
+  } catch (err: any) {
+    console.error(`Error updating comment ${commentId}:`, err);
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: 'Failed to update comment' });
+  }
+};
+
+// --- DELETE /api/tasks/:id/comments/:commentId ---
+export const deleteComment = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { commentId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(commentId)) {
+    return res.status(400).json({ message: 'Invalid Comment ID' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res);
+    if (!loaded) return;
+
+    const comment = await Comment.findOne({ _id: commentId, task: loaded.task._id });
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    // Удалить может автор или админ доски
+    const isAuthor = comment.author.id.toString() === userId;
+    if (!isAuthor && !hasRequiredRole(loaded.access.role, 'admin')) {
+      return res.status(403).json({ message: 'Forbidden: You cannot delete this comment' });
+    }
+
+    await comment.deleteOne();
+    console.log(`Comment ${commentId} deleted by user ${userId}`);
+
+    broadcastCommentEvent('COMMENT_DELETED', loaded.task, {
+      id: commentId,
+      taskId: req.params.id,
+    });
+    res.status(200).json({ message: 'Comment deleted successfully', deletedCommentId: commentId });
+  } catch (err: any) {
+    console.error(`Error deleting comment ${commentId}:`, err);
+    res.status(500).json({ message: 'Failed to delete comment' });
+  }
+};
@@ -0,0 +1,114 @@
+// src/controllers/dependencies.controller.ts
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { loadVisibleTask, buildVisibleTasksFilter } from '../services/taskAccess.service';
+import {
+  assertCanAddDependency,
+  getDependencyGraph,
+  MAX_DEPENDENCY_DEPTH,
+} from '../services/taskDependency.service';
+import { recordTaskActivity } from '../services/activity.service';
+import { broadcastTaskUpdate } from '../services/websocket.service';
+import { HttpError } from '../middleware/errorHandler';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const toIds = (ids: Types.ObjectId[]) => ids.map((id) => id.toString());
+
+// --- POST /api/tasks/:id/dependencies ---
+// { blockerId } — задача blockerId блокирует задачу :id
+export const addDependency = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res, req.params.id);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    if (!access.canEditAllFields) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this task' });
+    }
+    const blockerLoaded = await loadVisibleTask(req, res, req.body.blockerId);
+    if (!blockerLoaded) return;
+    const blocker = blockerLoaded.task;
+
+    await assertCanAddDependency(task, blocker);
+
+    const before = toIds(task.blockedBy);
+    task.blockedBy.push(blocker._id as Types.ObjectId);
+    const savedTask = await task.save();
+    await recordTaskActivity('updated', savedTask, userId, [
+      { field: 'blockedBy', from: before, to: toIds(savedTask.blockedBy) },
+    ]);
+    console.log(`Task ${blocker._id} now blocks task ${task._id} (user ${userId})`);
+
+    broadcastTaskUpdate(savedTask);
+    res.status(201).json(savedTask.toJSON());
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error adding dependency to task ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to add dependency' });
+  }
+};
+
+// --- DELETE /api/tasks/:id/dependencies/:blockerId ---
+export const removeDependency = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { blockerId } = req.params;
+
+  try {
+    const loaded = await loadVisibleTask(req, res, req.params.id);
+    if (!loaded) return;
+    const { task, access } = loaded;
+    if (!access.canEditAllFields) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit this task' });
+    }
+
+    const before = toIds(task.blockedBy);
+    if (!before.includes(blockerId)) {
+      return res.status(404).json({ message: 'Dependency not found' });
+    }
+    task.blockedBy = task.blockedBy.filter((id) => id.toString() !== blockerId);
+    const savedTask = await task.save();
+    await recordTaskActivity('updated', savedTask, userId, [
+      { field: 'blockedBy', from: before, to: toIds(savedTask.blockedBy) },
+    ]);
+
+    broadcastTaskUpdate(savedTask);
+    res.status(200).json(savedTask.toJSON());
+  } catch (err: any) {
+    console.error(`Error removing dependency from task ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to remove dependency' });
+  }
+};
+
+// --- GET /api/tasks/:id/graph ---
+// ?depth=N ограничивает глубину обхода в каждую сторону
+export const getTaskGraph = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const loaded = await loadVisibleTask(req, res, req.params.id);
+    if (!loaded) return;
+
+    const visibleFilter = await buildVisibleTasksFilter(userId, 'all');
+    const depth = Math.min(Number(req.query.depth) || MAX_DEPENDENCY_DEPTH, MAX_DEPENDENCY_DEPTH);
+    const graph = await getDependencyGraph(loaded.task, visibleFilter, depth);
+    res.status(200).json(graph);
+  } catch (err: any) {
+    console.error(`Error building dependency graph for task ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to build dependency graph' });
+  }
+};
@@ -0,0 +1,154 @@
+// src/controllers/labels.controller.ts
+import { Request, Response } from 'express';
+import mongoose, { Types } from 'mongoose';
+import { findBoardForMember, hasRequiredRole } from '../services/boards.service';
+import {
+  parseLabelInput,
+  assertLabelNameFree,
+  removeLabelFromTasks,
+  MAX_LABELS_PER_BOARD,
+} from '../services/labels.service';
+import { broadcastTaskUpdate } from '../services/websocket.service';
+import { HttpError } from '../middleware/errorHandler';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+// --- GET /api/boards/:id/labels ---
+export const getBoardLabels = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    res.status(200).json(access.board.toJSON().labels);
+  } catch (err: any) {
+    console.error(`Error fetching labels of board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to fetch labels' });
+  }
+};
+
+// --- POST /api/boards/:id/labels ---
+export const createBoardLabel = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden: Viewers cannot manage labels' });
+    }
+    const { board } = access;
+    if (board.labels.length >= MAX_LABELS_PER_BOARD) {
+      return res
+        .status(400)
+        .json({ message: `A board cannot have more than ${MAX_LABELS_PER_BOARD} labels` });
+    }
+
+    const input = parseLabelInput(req.body);
+    assertLabelNameFree(board, input.name!);
+    const label = { _id: new Types.ObjectId(), name: input.name!, color: input.color! };
+    board.labels.push(label);
+    await board.save();
+    console.log(`Label "${label.name}" added to board ${req.params.id} by user ${userId}`);
+
+    const saved = board.labels.find((l) => l._id.equals(label._id)) as any;
+    res.status(201).json(saved.toJSON());
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error creating label on board ${req.params.id}:`, err);
+    res.status(500).json({ message: 'Failed to create label' });
+  }
+};
+
+// --- PUT /api/boards/:id/labels/:labelId ---
+export const updateBoardLabel = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { labelId } = req.params;
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'member')) {
+      return res.status(403).json({ message: 'Forbidden: Viewers cannot manage labels' });
+    }
+    const { board } = access;
+    const label = board.labels.find((l) => l._id.toString() === labelId) as any;
+    if (!label) {
+      return res.status(404).json({ message: 'Label not found' });
+    }
+
+    const input = parseLabelInput(req.body, true);
+    if (input.name) assertLabelNameFree(board, input.name, labelId);
+    label.set(input);
+    await board.save();
+
+    // Метки задач хранятся по id, поэтому сами задачи не меняются
+    res.status(200).json(label.toJSON());
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error updating label ${labelId}:`, err);
+    res.status(500).json({ message: 'Failed to update label' });
+  }
+};
+
+// --- DELETE /api/boards/:id/labels/:labelId ---
+export const deleteBoardLabel = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { labelId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(labelId)) {
+    return res.status(400).json({ message: 'Invalid Label ID' });
+  }
+  try {
+    const access = await findBoardForMember(req.params.id, userId);
+    if (!access) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+    if (!hasRequiredRole(access.role, 'admin')) {
+      return res.status(403).json({ message: 'Forbidden: Only board admins can delete labels' });
+    }
+    const { board } = access;
+    if (!board.labels.some((l) => l._id.toString() === labelId)) {
+      return res.status(404).json({ message: 'Label not found' });
+    }
+
+    board.labels = board.labels.filter((l) => l._id.toString() !== labelId);
+    await board.save();
+
+    // Снимаем метку с задач и рассылаем их новое состояние
+    const affectedTasks = await removeLabelFromTasks(board._id as Types.ObjectId, labelId);
+    affectedTasks.forEach((task) => broadcastTaskUpdate(task));
+    console.log(
+      `Label ${labelId} deleted from board ${req.params.id} (${affectedTasks.length} tasks updated)`,
+    );
+
+    res.status(200).json({
+      message: 'Label deleted successfully',
+      deletedLabelId: labelId,
+      updatedTasks: affectedTasks.length,
+    });
+  } catch (err: any) {
+    console.error(`Error deleting label ${labelId}:`, err);
+    res.status(500).json({ message: 'Failed to delete label' });
+  }
+};
@@ -1,15 +1,151 @@
 import { Request, Response } from 'express';
-import { io } from '../app';
+import mongoose, { Types } from 'mongoose';
+import { Notification } from '../models/notification.model';
+import { createNotification } from '../services/notification.service';
+import { emitToUser } from '../services/websocket.service';
+import { sharesBoard } from '../services/boards.service';
+import { resolveActor } from '../services/activity.service';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// --- GET /api/notifications ---
+export const getNotifications = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const limit = Math.min(
+    Math.max(Math.trunc(Number(req.query.limit)) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+  const cursor = req.query.cursor as string | undefined;
+  if (cursor && !mongoose.Types.ObjectId.isValid(cursor)) {
+    return res.status(400).json({ message: 'Invalid cursor' });
+  }
+
+  try {
+    const userObjectId = new Types.ObjectId(userId);
+    // ?unread=true — только непрочитанные
+    const filter: Record<string, any> = { user: userObjectId };
+    if (req.query.unread === 'true') filter.isRead = false;
+    const pageFilter = cursor ? { ...filter, _id: { $lt: new Types.ObjectId(cursor) } } : filter;
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(pageFilter)
+        .sort({ _id: -1 })
+        .limit(limit + 1),
+      Notification.countDocuments({ user: userObjectId, isRead: false }),
+    ]);
+    const hasMore = notifications.length > limit;
+    const page = hasMore ? notifications.slice(0, limit) : notifications;
+
+    res.status(200).json({
+      notifications: page.map((notification) => notification.toJSON()),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      unreadCount,
+    });
+  } catch (error) {
+    console.error(`Error fetching notifications for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch notifications' });
+  }
+};
+
+// --- POST /api/notifications/:id/read ---
+export const markNotificationRead = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const notificationId = req.params.id;
+  if (!mongoose.Types.ObjectId.isValid(notificationId)) {
+    return res.status(400).json({ message: 'Invalid Notification ID' });
+  }
+
+  try {
+    const notification = await Notification.findOneAndUpdate(
+      { _id: notificationId, user: new Types.ObjectId(userId) },
+      { isRead: true, readAt: new Date() },
+      { new: true },
+    );
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+    // Остальные вкладки пользователя тоже снимают отметку
+    emitToUser(userId, 'NOTIFICATIONS_READ', { ids: [notificationId] });
+    res.status(200).json(notification.toJSON());
+  } catch (error) {
+    console.error(`Error marking notification ${notificationId} as read:`, error);
+    res.status(500).json({ message: 'Failed to mark notification as read' });
+  }
+};
+
+// --- POST /api/notifications/read-all ---
+export const markAllNotificationsRead = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const result = await Notification.updateMany(
+      { user: new Types.ObjectId(userId), isRead: false },
+      { isRead: true, readAt: new Date() },
+    );
+    emitToUser(userId, 'NOTIFICATIONS_READ', { all: true });
+    res.status(200).json({ success: true, updated: result.modifiedCount });
+  } catch (error) {
+    console.error(`Error marking all notifications as read for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to mark notifications as read' });
+  }
+};
+
+// --- POST /api/notifications ---
+// Уведомление от пользователя пользователю (сохраняется и доставляется так же, как системные).
+// Писать можно только тем, с кем есть общая доска; отправитель сохраняется в actor
+export const sendNotification = async (req: AuthenticatedRequest, res: Response) => {
+  const senderId = req.userId;
+  if (!senderId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { userId, title, body } = req.body;
+  if (
+    typeof userId !== 'string' ||
+    !mongoose.Types.ObjectId.isValid(userId) ||
+    typeof title !== 'string' ||
+    !title.trim() ||
+    (body !== undefined && typeof body !== 'string')
+  ) {
+    return res.status(400).json({ error: 'userId and title are required' });
+  }
 
-export const sendNotification = async (req: Request, res: Response) => {
   try {
-    const { userId, title, body } = req.body;
+    if (!(await sharesBoard(senderId, userId))) {
+      return res.status(403).json({ error: 'Forbidden: You do not share a board with this user' });
+    }
+    const actor = await resolveActor(senderId);
+    if (!actor) {
+      return res.status(401).json({ message: 'User not found' });
+    }
 
-    // В реальном приложении здесь была бы отправка push-уведомления
-    io.to(userId).emit('NOTIFICATION', { title, body });
+    const notification = await createNotification({
+      userId,
+      type: 'custom',
+      title,
+      message: body,
+      actor,
+    });
+    if (!notification) {
+      return res.status(500).json({ error: 'Failed to send notification' });
+    }
 
-    res.status(200).json({ success: true });
+    res.status(200).json({ success: true, notification });
   } catch (error) {
+    console.error(`Error sending notification from user ${senderId} to ${userId}:`, error);
     res.status(500).json({ error: 'Failed to send notification' });
   }
 };
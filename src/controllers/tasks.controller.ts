@@ -5,28 +5,205 @@ import { User, IUser } from '../models/user.model';
 import { ITask } from '../types/taskTypes';
 import mongoose, { Types } from 'mongoose';
 import {
-  createCalendarEvent,
-  updateCalendarEvent,
-  deleteCalendarEvent,
-} from '../services/googleCalendar.service';
-import { broadcastTaskUpdate, broadcastTaskDelete } from '../services/websocket.service';
+  broadcastTaskUpdate,
+  broadcastTaskDelete,
+  broadcastTaskBulkChange,
+} from '../services/websocket.service';
+import {
+  findBoardForMember,
+  getOrCreatePersonalBoard,
+  hasRequiredRole,
+} from '../services/boards.service';
+import {
+  resolveTaskAccess,
+  buildVisibleTasksFilter,
+  getForbiddenUpdateFields,
+  pickTaskUpdates,
+  TaskScope,
+  TASK_SCOPES,
+} from '../services/taskAccess.service';
+import { parseTaskListQuery, encodeCursor } from '../services/taskQuery.service';
+import { searchTasks as runTaskSearch } from '../services/taskSearch.service';
+import { recordTaskActivity, snapshotTask, diffTaskSnapshots } from '../services/activity.service';
+import { notifyTaskActivity } from '../services/notification.service';
+import {
+  resolveParentTask,
+  planCalendarRemoval,
+  spawnNextRecurrence,
+  moveTask as applyTaskMove,
+  assertTaskVersion,
+  taskVersionFilter,
+  taskVersionConflict,
+} from '../services/tasks.service';
+import { getColumnEndRank } from '../services/taskRank.service';
+import { moveTaskToTrash, getPurgeDate } from '../services/trash.service';
+import { parseBulkRequest, runBulkTaskAction } from '../services/bulkTasks.service';
+import {
+  enqueueTaskCalendarSync,
+  enqueueCalendarOperations,
+  affectsCalendarEvent,
+} from '../services/calendarOutbox.service';
+import { parseRecurrenceInput } from '../services/recurrence.service';
+import { assertBlockersResolved } from '../services/taskDependency.service';
+import { resolveTaskLabels } from '../services/labels.service';
+import {
+  getWorkflow,
+  getTaskWorkflow,
+  getFinalStatuses,
+  getInitialStatus,
+  assertStatusExists,
+  assertWipCapacity,
+  assertStatusTransition,
+} from '../services/workflow.service';
+import { HttpError } from '../middleware/errorHandler';
+import { IBoard } from '../types/boardTypes';
 
 interface AuthenticatedRequest extends Request {
   userId?: string;
 }
 
+// ETag задачи — ее номер версии
+const taskETag = (task: ITask) => `"${task.version}"`;
+
+// Версия, которую правил клиент: заголовок If-Match ("3" или W/"3", * — любая) или поле version.
+// undefined — формат не распознан
+const getExpectedVersion = (req: Request, task: ITask): number | null | undefined => {
+  const ifMatch = req.get('If-Match')?.trim();
+  if (ifMatch !== undefined) {
+    if (ifMatch === '*') return task.version;
+    const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch);
+    return match ? Number(match[1]) : undefined;
+  }
+  if (req.body.version === undefined) return null;
+  return Number.isInteger(req.body.version) ? req.body.version : undefined;
+};
+
 // --- GET /api/tasks ---
 export const getTasks = async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.userId;
   if (!userId) {
     return res.status(401).json({ message: 'User ID not found' });
   }
+  // ?scope=assigned|owned|all — назначенные мне, созданные мной или все доступные
+  const scope = ((req.query.scope as string) || 'all') as TaskScope;
+  if (!TASK_SCOPES.includes(scope)) {
+    return res.status(400).json({ message: `Scope must be one of: ${TASK_SCOPES.join(', ')}` });
+  }
+  try {
+    // ?board=<id> — задачи одной доски, иначе задачи всех досок пользователя
+    const boardId = req.query.board as string | undefined;
+    let filter;
+    if (boardId) {
+      const access = await findBoardForMember(boardId, userId);
+      if (!access) {
+        return res.status(404).json({ message: 'Board not found' });
+      }
+      filter = { board: access.board._id };
+      if (scope === 'owned') filter = { ...filter, owner: new Types.ObjectId(userId) };
+      if (scope === 'assigned') filter = { ...filter, 'assignee.id': new Types.ObjectId(userId) };
+    } else {
+      filter = await buildVisibleTasksFilter(userId, scope);
+    }
+
+    // Фильтры, сортировка и курсор из query-параметров
+    const listQuery = parseTaskListQuery(req.query, filter, userId);
+    const pageFilter = listQuery.cursorFilter
+      ? { $and: [listQuery.filter, listQuery.cursorFilter] }
+      : listQuery.filter;
+
+    // Берем на одну задачу больше, чтобы понять, есть ли следующая страница
+    const [tasks, total] = await Promise.all([
+      Task.find(pageFilter)
+        .sort(listQuery.sort)
+        .limit(listQuery.limit + 1),
+      Task.countDocuments(listQuery.filter),
+    ]);
+    const hasMore = tasks.length > listQuery.limit;
+    const pageTasks = hasMore ? tasks.slice(0, listQuery.limit) : tasks;
+    const nextCursor = hasMore
+      ? encodeCursor(pageTasks[pageTasks.length - 1], listQuery.sortField)
+      : null;
+
+    console.log(`Fetched ${pageTasks.length} of ${total} tasks for user ${userId}`);
+    res.status(200).json({
+      tasks: pageTasks.map((task) => task.toJSON()),
+      nextCursor,
+      total,
+    });
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error(`Error fetching tasks for user ${userId}:`, err);
+    res.status(500).json({ message: 'Failed to fetch tasks' });
+  }
+};
+
+// --- GET /api/tasks/search ---
+export const searchTasks = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (!query) {
+    return res.status(400).json({ message: 'Search query (q) is required' });
+  }
+  const scope = ((req.query.scope as string) || 'all') as TaskScope;
+  if (!TASK_SCOPES.includes(scope)) {
+    return res.status(400).json({ message: `Scope must be one of: ${TASK_SCOPES.join(', ')}` });
+  }
+  // Целое от 1 до 50: отрицательный limit MongoDB понял бы как «одна пачка и закрыть курсор»
+  const limit = Math.min(Math.max(Math.trunc(Number(req.query.limit)) || 20, 1), 50);
+
   try {
-    const tasks = await Task.find({ owner: new Types.ObjectId(userId) }).sort({ createdAt: -1 });
-    console.log(`Fetched ${tasks.length} tasks for user ${userId}`);
-    res.status(200).json(tasks.map((task) => task.toJSON()));
+    // Те же правила видимости, что и в getTasks
+    const visibleFilter = await buildVisibleTasksFilter(userId, scope);
+    const results = await runTaskSearch(query, visibleFilter, limit);
+    console.log(`Search "${query}" by user ${userId}: ${results.length} results`);
+    res.status(200).json(
+      results.map((result) => ({
+        task: result.task.toJSON(),
+        score: result.score,
+        highlights: result.highlights,
+      })),
+    );
   } catch (err: any) {
-    /* ... */
+    console.error(`Error searching tasks for user ${userId}:`, err);
+    res.status(500).json({ message: 'Failed to search tasks' });
+  }
+};
+
+// --- GET /api/tasks/:id/subtasks ---
+export const getSubtasks = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const taskId = req.params.id;
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    return res.status(400).json({ message: 'Invalid Task ID' });
+  }
+
+  try {
+    const task = await Task.findById(taskId);
+    const access = task ? await resolveTaskAccess(task, userId) : null;
+    if (!task || !access?.canView) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const subtasks = await Task.find({ parent: task._id }).sort({ createdAt: 1 });
+    // Готовыми считаются подзадачи в финальных статусах процесса доски
+    const finalStatuses = getFinalStatuses(await getTaskWorkflow(task));
+    const done = subtasks.filter((subtask) => finalStatuses.includes(subtask.status)).length;
+
+    res.status(200).json({
+      subtasks: subtasks.map((subtask) => subtask.toJSON()),
+      progress: { done, total: subtasks.length, label: `${done}/${subtasks.length} done` },
+    });
+  } catch (err: any) {
+    console.error(`Error fetching subtasks for task ${taskId}:`, err);
+    res.status(500).json({ message: 'Failed to fetch subtasks' });
   }
 };
 
@@ -44,6 +221,46 @@ export const createTask = async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const clientTaskData = req.body;
+
+    // Доска задачи: указанная клиентом (нужна роль member) или личная доска пользователя
+    let board: IBoard;
+    if (clientTaskData.board) {
+      const access = await findBoardForMember(clientTaskData.board, userId);
+      if (!access) {
+        return res.status(404).json({ message: 'Board not found' });
+      }
+      if (!hasRequiredRole(access.role, 'member')) {
+        return res.status(403).json({ message: 'Forbidden: Viewers cannot create tasks' });
+      }
+      board = access.board;
+    } else {
+      board = await getOrCreatePersonalBoard(userId);
+    }
+    const boardId = board._id as Types.ObjectId;
+
+    // Статус должен быть в процессе доски, а в колонке — место по WIP-лимиту
+    const workflow = getWorkflow(board);
+    const initialStatus = assertStatusExists(
+      workflow,
+      clientTaskData.status || getInitialStatus(workflow),
+    );
+    await assertWipCapacity(boardId, initialStatus);
+
+    // Подзадача: родитель должен быть на той же доске
+    const parent = clientTaskData.parent
+      ? await resolveParentTask(clientTaskData.parent, boardId, userId)
+      : null;
+
+    // Метки — только из каталога доски
+    const labels = clientTaskData.labels
+      ? await resolveTaskLabels(boardId, clientTaskData.labels)
+      : [];
+
+    // Правило повторения: объект, строка RRULE или { rrule }
+    const recurrence = clientTaskData.recurrence
+      ? parseRecurrenceInput(clientTaskData.recurrence)
+      : null;
+
     let finalAssignee = { id: '', name: '', email: '' };
     let assigneeUser: IUser | null = null;
 
@@ -76,6 +293,15 @@ export const createTask = async (req: AuthenticatedRequest, res: Response) => {
     const taskToSaveData: Partial<ITask> & { owner: string } = {
       ...clientTaskData,
       owner: userId, // userId точно string после первой проверки
+      board: boardId,
+      status: initialStatus.key,
+      rank: await getColumnEndRank(boardId, initialStatus.key), // Новая карточка — в конец колонки
+      parent: parent?._id as Types.ObjectId | undefined,
+      checklist: [], // Пункты добавляются через /api/tasks/:id/checklist
+      attachments: [], // Файлы загружаются через /api/tasks/:id/attachments
+      blockedBy: [], // Зависимости — через /api/tasks/:id/dependencies
+      labels,
+      recurrence: recurrence ?? undefined,
       assignee: finalAssignee,
       isHidden: false,
     };
@@ -88,20 +314,23 @@ export const createTask = async (req: AuthenticatedRequest, res: Response) => {
       `Task ${savedTask._id} created by user ${userId}, assigned to ${finalAssignee.email}`,
     );
 
-    // Calendar Integration
-    const calendarEventId = await createCalendarEvent(savedTask);
-    if (calendarEventId) {
-      savedTask.calendarEventId = calendarEventId;
-      await savedTask.save();
-      console.log(`Saved Calendar Event ID ${calendarEventId} to task ${savedTask._id}`);
-    } else {
-      /* ... */
-    }
+    // Calendar Integration (для повторяющейся задачи — серия событий) — через очередь,
+    // calendarEventId появится у задачи после выполнения задания
+    await enqueueTaskCalendarSync(savedTask._id as Types.ObjectId);
 
+    await recordTaskActivity('created', savedTask, userId);
+    await notifyTaskActivity('created', savedTask, userId);
     broadcastTaskUpdate(savedTask);
-    res.status(201).json(savedTask.toJSON());
+    res.status(201).set('ETag', taskETag(savedTask)).json(savedTask.toJSON());
   } catch (err: any) {
-    /* ... */
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error('Error creating task:', err);
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: 'Failed to create task' });
   }
 };
 
@@ -117,15 +346,99 @@ export const updateTask = async (req: AuthenticatedRequest, res: Response) => {
   }
 
   try {
-    const updatesFromBody = { ...req.body };
+    // Только разрешенные поля; операторы вроде $set/$unset от клиента не принимаются
+    const updatesFromBody = pickTaskUpdates(req.body);
+    // ?force=true (или force в теле) — закрыть задачу, несмотря на открытые блокеры
+    const force = req.query.force === 'true' || req.body.force === true;
 
     // Check permissions
-    const taskToUpdate = await Task.findOne({
-      _id: new Types.ObjectId(taskId),
-      owner: new Types.ObjectId(userId),
-    });
+    const taskToUpdate = await Task.findById(taskId);
     if (!taskToUpdate) {
-      /* ... 404 / 403 handling ... */
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    const access = await resolveTaskAccess(taskToUpdate, userId);
+    if (!access.canView) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (!access.canEdit) {
+      return res.status(403).json({ message: 'Forbidden: You cannot edit tasks on this board' });
+    }
+
+    // Оптимистичная блокировка: правка должна опираться на текущую версию задачи
+    const expectedVersion = getExpectedVersion(req, taskToUpdate);
+    if (expectedVersion === undefined) {
+      return res.status(400).json({ message: 'Invalid If-Match header or version' });
+    }
+    assertTaskVersion(taskToUpdate, expectedVersion);
+
+    // Клиент может прислать задачу целиком: тот же исполнитель — не переназначение
+    if (updatesFromBody.assignee?.email === taskToUpdate.assignee.email) {
+      delete updatesFromBody.assignee;
+    }
+
+    // Исполнитель без прав участника меняет только статус и описание
+    const forbiddenFields = getForbiddenUpdateFields(access, updatesFromBody);
+    if (forbiddenFields.length > 0) {
+      return res.status(403).json({
+        message: `Forbidden: You cannot change ${forbiddenFields.join(', ')}`,
+        forbiddenFields,
+      });
+    }
+
+    // Переход статуса проверяется по процессу доски
+    if (updatesFromBody.status !== undefined) {
+      await assertStatusTransition(taskToUpdate, updatesFromBody.status);
+      await assertBlockersResolved(taskToUpdate, updatesFromBody.status, force);
+      // В новой колонке карточка встает в конец
+      if (updatesFromBody.status !== taskToUpdate.status) {
+        updatesFromBody.rank = await getColumnEndRank(
+          taskToUpdate.board,
+          updatesFromBody.status,
+          taskToUpdate._id as Types.ObjectId,
+        );
+      }
+    }
+
+    if (updatesFromBody.labels !== undefined) {
+      updatesFromBody.labels = await resolveTaskLabels(taskToUpdate.board, updatesFromBody.labels);
+    }
+
+    // Смена правила повторения: номер экземпляра сохраняется, серия событий создается заново
+    const recurrenceChanged = updatesFromBody.recurrence !== undefined;
+    // У экземпляра с готовым следующим правило уже не действует: иначе он породил бы второй
+    if (recurrenceChanged && taskToUpdate.recurrence?.nextTask) {
+      throw new HttpError(
+        422,
+        'Recurrence can only be changed on the latest occurrence of the series',
+        { code: 'RECURRENCE_NOT_LATEST', latestTaskId: taskToUpdate.recurrence.nextTask },
+      );
+    }
+    if (updatesFromBody.recurrence === null) {
+      delete updatesFromBody.recurrence;
+      updatesFromBody.$unset = { ...updatesFromBody.$unset, recurrence: 1 };
+    } else if (recurrenceChanged) {
+      const rule = parseRecurrenceInput(updatesFromBody.recurrence)!;
+      updatesFromBody.recurrence = {
+        ...rule,
+        occurrence: taskToUpdate.recurrence?.occurrence ?? 1,
+      };
+    }
+    if (recurrenceChanged) {
+      updatesFromBody.$unset = { ...updatesFromBody.$unset, calendarEventId: 1 };
+    }
+
+    // Смена родителя: null делает задачу обычной, иначе проверяем доску и циклы
+    if (updatesFromBody.parent === null) {
+      delete updatesFromBody.parent;
+      updatesFromBody.$unset = { ...updatesFromBody.$unset, parent: 1 };
+    } else if (updatesFromBody.parent !== undefined) {
+      const parent = await resolveParentTask(
+        updatesFromBody.parent,
+        taskToUpdate.board,
+        userId,
+        taskId,
+      );
+      updatesFromBody.parent = parent._id;
     }
 
     // Handle Assignee Update
@@ -152,48 +465,130 @@ export const updateTask = async (req: AuthenticatedRequest, res: Response) => {
       delete updatesFromBody.assignee;
     }
 
-    // ... (Очистка запрещенных полей) ...
-    delete updatesFromBody.owner;
-    delete (updatesFromBody as any).createdAt; // Используем as any для простоты
-    delete (updatesFromBody as any).updatedAt;
-    delete (updatesFromBody as any).id;
-    delete (updatesFromBody as any)._id;
-    delete (updatesFromBody as any).calendarEventId;
-
     console.log(`Applying updates to task ${taskId}:`, JSON.stringify(updatesFromBody, null, 2));
 
-    // Update task in DB
-    const updatedTask = await Task.findByIdAndUpdate(taskId, updatesFromBody, {
-      new: true,
-      runValidators: true,
-    });
+    // Update task in DB (только если версия не сменилась, пока шли проверки)
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: taskId, ...taskVersionFilter(taskToUpdate.version) },
+      updatesFromBody,
+      { new: true, runValidators: true },
+    );
 
     if (!updatedTask) {
       // <<< Проверка №1 для updatedTask
+      const current = await Task.findById(taskId);
+      if (current) throw taskVersionConflict(current);
       console.error(`Failed to update task ${taskId} or task not found after update.`);
       return res.status(404).json({ message: 'Task not found or failed to update' });
     }
     // --- Теперь updatedTask точно не null ---
     console.log(`Task ${taskId} updated in DB by user ${userId}.`);
+    const changes = diffTaskSnapshots(snapshotTask(taskToUpdate), snapshotTask(updatedTask));
+    await recordTaskActivity('updated', updatedTask, userId, changes);
+    await notifyTaskActivity('updated', updatedTask, userId, changes);
 
-    // Update Calendar Event
-    const shouldUpdateCalendar =
-      updatedTask.calendarEventId && // <<< Ошибки здесь не будет
-      (updatesFromBody.deadline || updatesFromBody.title || updatesFromBody.description);
-    if (shouldUpdateCalendar) {
-      console.log(`Attempting to update Google Calendar event ${updatedTask.calendarEventId}...`);
-      await updateCalendarEvent(updatedTask.calendarEventId!, {
-        /* ... updates ... */
-      });
-    } // ...
+    // Правило повторения поменялось: старое событие (или хвост серии) убираем, новое создаст очередь
+    if (recurrenceChanged) {
+      await enqueueCalendarOperations(planCalendarRemoval(taskToUpdate));
+    }
+
+    // Update Calendar Event (через очередь calendarOutbox.service: ошибки Google повторяются)
+    if (recurrenceChanged || affectsCalendarEvent(changes)) {
+      await enqueueTaskCalendarSync(updatedTask._id as Types.ObjectId);
+    }
+
+    // Выполненная повторяющаяся задача порождает следующий экземпляр
+    const nextOccurrence = await spawnNextRecurrence(updatedTask, userId);
 
     // Broadcast WS update
     broadcastTaskUpdate(updatedTask);
+    if (nextOccurrence) broadcastTaskUpdate(nextOccurrence);
 
     // Send response
-    res.status(200).json(updatedTask.toJSON()); // <<< Ошибки здесь не будет
+    res.status(200).set('ETag', taskETag(updatedTask)).json(updatedTask.toJSON()); // <<< Ошибки здесь не будет
   } catch (err: any) {
-    /* ... error handling ... */
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error updating task ${taskId}:`, err);
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: 'Failed to update task' });
+  }
+};
+
+// --- POST /api/tasks/bulk ---
+// Тело: { action: 'update' | 'delete' | 'archive', taskIds, updates?, force? }.
+// Ответ 200 с результатом по каждой задаче, даже если часть задач не изменилась
+export const bulkTasks = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+
+  try {
+    const request = await parseBulkRequest(req.body);
+    const { results, updated, deleted } = await runBulkTaskAction(request, userId);
+    broadcastTaskBulkChange(updated, deleted);
+
+    const succeeded = results.filter((result) => result.ok).length;
+    res.status(200).json({
+      action: request.action,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error running bulk task action for user ${userId}:`, err);
+    res.status(500).json({ message: 'Failed to process tasks' });
+  }
+};
+
+// --- POST /api/tasks/:id/move ---
+// Тело: { status?, afterTaskId?, beforeTaskId?, force? } — новая колонка и место в ней
+export const moveTask = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const taskId = req.params.id;
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    return res.status(400).json({ message: 'Invalid Task ID' });
+  }
+  const { status, afterTaskId, beforeTaskId } = req.body;
+  if (status !== undefined && typeof status !== 'string') {
+    return res.status(400).json({ message: 'Status must be a string' });
+  }
+
+  try {
+    const task = await Task.findById(taskId);
+    const access = task ? await resolveTaskAccess(task, userId) : null;
+    if (!task || !access?.canView) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    // Перемещение — это смена статуса, поэтому доступно и исполнителю
+    if (!access.canEdit) {
+      return res.status(403).json({ message: 'Forbidden: You cannot move tasks on this board' });
+    }
+
+    const force = req.query.force === 'true' || req.body.force === true;
+    const result = await applyTaskMove(task, { status, afterTaskId, beforeTaskId, force }, userId);
+
+    broadcastTaskUpdate(result.task);
+    result.rebalanced.forEach((neighbour) => broadcastTaskUpdate(neighbour));
+    if (result.nextOccurrence) broadcastTaskUpdate(result.nextOccurrence);
+
+    res.status(200).set('ETag', taskETag(result.task)).json(result.task.toJSON());
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error moving task ${taskId}:`, err);
+    res.status(500).json({ message: 'Failed to move task' });
   }
 };
 
@@ -210,40 +605,32 @@ export const deleteTask = async (req: AuthenticatedRequest, res: Response) => {
 
   try {
     // Check permissions
-    const taskToDelete = await Task.findOne({
-      _id: new Types.ObjectId(taskId),
-      owner: new Types.ObjectId(userId),
-    });
+    const taskToDelete = await Task.findById(taskId);
     if (!taskToDelete) {
-      // <<< Проверка №1 для taskToDelete
-      /* ... 404 / 403 handling ... */
-      const taskExists = await Task.findById(taskId);
-      if (!taskExists) {
-        return res.status(404).json({ message: 'Task not found' });
-      } else {
-        return res.status(403).json({ message: 'Forbidden: You do not own this task' });
-      }
+      return res.status(404).json({ message: 'Task not found' });
     }
-    // --- Теперь taskToDelete точно не null ---
-
-    // Get calendar event ID *after* check
-    const calendarEventIdToDelete = taskToDelete.calendarEventId; // <<< Ошибки здесь не будет
-
-    // Delete calendar event
-    if (calendarEventIdToDelete) {
-      console.log(`Attempting to delete Google Calendar event ${calendarEventIdToDelete}...`);
-      await deleteCalendarEvent(calendarEventIdToDelete);
+    const access = await resolveTaskAccess(taskToDelete, userId);
+    if (!access.canView) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (!access.canDelete) {
+      return res.status(403).json({ message: 'Forbidden: You cannot delete this task' });
     }
+    // --- Теперь taskToDelete точно не null ---
 
-    // Delete task from DB
-    await Task.findByIdAndDelete(taskId);
-    console.log(`Task ${taskId} deleted by user ${userId}`);
+    // Задача уходит в корзину; комментарии удаляются вместе с ней при очистке корзины
+    await moveTaskToTrash(taskToDelete, userId);
 
     // Broadcast WS update
-    broadcastTaskDelete(taskId);
+    broadcastTaskDelete(taskToDelete);
 
-    res.status(200).json({ message: 'Task deleted successfully', deletedTaskId: taskId });
+    res.status(200).json({
+      message: 'Task moved to trash',
+      deletedTaskId: taskId,
+      purgeAt: getPurgeDate(taskToDelete),
+    });
   } catch (err: any) {
-    /* ... error handling ... */
+    console.error(`Error deleting task ${taskId}:`, err);
+    res.status(500).json({ message: 'Failed to delete task' });
   }
 };
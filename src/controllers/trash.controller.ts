@@ -0,0 +1,84 @@
+// src/controllers/trash.controller.ts
+import { Request, Response } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import { Task } from '../models/task.model';
+import { ITask } from '../types/taskTypes';
+import config from '../config';
+import { findBoardForMember } from '../services/boards.service';
+import { resolveTaskAccess, buildVisibleTasksFilter } from '../services/taskAccess.service';
+import { restoreTaskFromTrash, getPurgeDate } from '../services/trash.service';
+import { broadcastTaskUpdate } from '../services/websocket.service';
+import { HttpError } from '../middleware/errorHandler';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const TRASH_PAGE_LIMIT = 200;
+
+// --- GET /api/tasks/trash ---
+// ?board=<id> — корзина одной доски, иначе всех досок пользователя
+export const getTrash = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const boardId = req.query.board as string | undefined;
+    let filter: FilterQuery<ITask>;
+    if (boardId) {
+      const access = await findBoardForMember(boardId, userId);
+      if (!access) {
+        return res.status(404).json({ message: 'Board not found' });
+      }
+      filter = { board: access.board._id };
+    } else {
+      filter = await buildVisibleTasksFilter(userId);
+    }
+
+    const tasks = await Task.find({ $and: [filter], deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 })
+      .limit(TRASH_PAGE_LIMIT);
+    res.status(200).json({
+      tasks: tasks.map((task) => ({ ...task.toJSON(), purgeAt: getPurgeDate(task) })),
+      retentionDays: config.TRASH_RETENTION_DAYS,
+    });
+  } catch (err: any) {
+    console.error(`Error fetching trash for user ${userId}:`, err);
+    res.status(500).json({ message: 'Failed to fetch trash' });
+  }
+};
+
+// --- POST /api/tasks/:id/restore ---
+export const restoreTask = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const taskId = req.params.id;
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    return res.status(400).json({ message: 'Invalid Task ID' });
+  }
+
+  try {
+    const task = await Task.findOne({ _id: taskId, deletedAt: { $ne: null } });
+    const access = task ? await resolveTaskAccess(task, userId) : null;
+    if (!task || !access?.canView) {
+      return res.status(404).json({ message: 'Task not found in trash' });
+    }
+    // Восстановить может тот, кто может удалить
+    if (!access.canDelete) {
+      return res.status(403).json({ message: 'Forbidden: You cannot restore this task' });
+    }
+
+    const restored = await restoreTaskFromTrash(task, userId);
+    broadcastTaskUpdate(restored);
+    res.status(200).json(restored.toJSON());
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ message: err.message, ...err.details });
+    }
+    console.error(`Error restoring task ${taskId}:`, err);
+    res.status(500).json({ message: 'Failed to restore task' });
+  }
+};
@@ -0,0 +1,78 @@
+// src/controllers/users.controller.ts
+import { Request, Response } from 'express';
+import { User } from '../models/user.model';
+import {
+  getUserReminderOffsets,
+  MAX_REMINDER_OFFSET_MINUTES,
+} from '../services/reminderScheduler.service';
+
+interface AuthenticatedRequest extends Request {
+  userId?: string;
+}
+
+const MAX_REMINDERS = 5;
+
+// --- GET /api/users/me/reminders ---
+export const getReminderSettings = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  try {
+    const user = await User.findById(userId).select('reminderOffsets');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.status(200).json({
+      offsets: getUserReminderOffsets(user.reminderOffsets),
+      isDefault: !user.reminderOffsets || user.reminderOffsets.length === 0,
+    });
+  } catch (error) {
+    console.error(`Error fetching reminder settings for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch reminder settings' });
+  }
+};
+
+// --- PUT /api/users/me/reminders ---
+// offsets — минуты до дедлайна; пустой массив или null возвращает значения по умолчанию
+export const updateReminderSettings = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'User ID not found' });
+  }
+  const { offsets } = req.body;
+  if (offsets !== null && !Array.isArray(offsets)) {
+    return res.status(400).json({ message: 'offsets must be an array of minutes' });
+  }
+  const list: number[] = offsets || [];
+  if (list.length > MAX_REMINDERS) {
+    return res.status(400).json({ message: `At most ${MAX_REMINDERS} reminders are allowed` });
+  }
+  const invalid = list.find(
+    (offset) => !Number.isInteger(offset) || offset < 1 || offset > MAX_REMINDER_OFFSET_MINUTES,
+  );
+  if (invalid !== undefined) {
+    return res.status(400).json({
+      message: `Each offset must be an integer between 1 and ${MAX_REMINDER_OFFSET_MINUTES} minutes`,
+    });
+  }
+
+  try {
+    const unique = [...new Set(list)].sort((a, b) => b - a);
+    const user = await User.findByIdAndUpdate(
+      userId,
+      unique.length > 0 ? { reminderOffsets: unique } : { $unset: { reminderOffsets: '' } },
+      { new: true },
+    ).select('reminderOffsets');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.status(200).json({
+      offsets: getUserReminderOffsets(user.reminderOffsets),
+      isDefault: unique.length === 0,
+    });
+  } catch (error) {
+    console.error(`Error updating reminder settings for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to update reminder settings' });
+  }
+};
@@ -1,11 +1,28 @@
 import { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
 
+// Ошибка с HTTP-статусом: сервисы бросают ее, контроллеры превращают в ответ
+export class HttpError extends Error {
+  status: number;
+  details?: Record<string, any>;
+
+  constructor(status: number, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
 export const errorHandler: ErrorRequestHandler = (
   err: Error,
   req: Request,
   res: Response,
   next: NextFunction,
 ) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ message: err.message, ...err.details });
+  }
+
   console.error('❌ Error:', err.stack);
 
   res.status(500).json({
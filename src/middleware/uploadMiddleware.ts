@@ -0,0 +1,46 @@
+// src/middleware/uploadMiddleware.ts
+import express, { Request, Response, NextFunction } from 'express';
+import config from '../config';
+
+export const ATTACHMENT_MAX_BYTES = config.ATTACHMENT_MAX_SIZE_MB * 1024 * 1024;
+
+// MIME-тип без параметров: "text/plain; charset=utf-8" -> "text/plain"
+export const getUploadMimeType = (req: Request): string =>
+  (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+export const isAllowedAttachmentType = (mimeType: string): boolean =>
+  config.ATTACHMENT_ALLOWED_TYPES.some((allowed) =>
+    allowed.endsWith('/*') ? mimeType.startsWith(allowed.slice(0, -1)) : allowed === mimeType,
+  );
+
+// Тело загрузки — сам файл; общий express.json({ limit: '10kb' }) его не трогает
+const rawParser = express.raw({ type: () => true, limit: ATTACHMENT_MAX_BYTES });
+
+const tooLarge = (res: Response) =>
+  res.status(413).json({
+    message: `File is larger than ${config.ATTACHMENT_MAX_SIZE_MB} MB`,
+    maxSizeBytes: ATTACHMENT_MAX_BYTES,
+  });
+
+// Проверяет тип и размер загружаемого файла и читает его в req.body (Buffer)
+export const parseAttachmentUpload = (req: Request, res: Response, next: NextFunction) => {
+  const mimeType = getUploadMimeType(req);
+  if (!isAllowedAttachmentType(mimeType)) {
+    return res.status(415).json({
+      message: `File type ${mimeType || 'unknown'} is not allowed`,
+      allowedTypes: config.ATTACHMENT_ALLOWED_TYPES,
+    });
+  }
+  // Заявленный размер проверяем до чтения тела
+  if (Number(req.headers['content-length']) > ATTACHMENT_MAX_BYTES) {
+    return tooLarge(res);
+  }
+
+  rawParser(req, res, (err?: any) => {
+    if (err) {
+      if (err.type === 'entity.too.large') return tooLarge(res);
+      return res.status(err.status || 400).json({ message: 'Failed to read uploaded file' });
+    }
+    next();
+  });
+};
@@ -1,25 +1,70 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { TASK_PRIORITIES, ESTIMATE_UNITS, RECURRENCE_FREQUENCIES } from '../types/taskTypes';
+
+// Объект правила или строка RRULE; подробная проверка — в recurrence.service
+const recurrenceSchema = Joi.alternatives().try(
+  Joi.string().max(200),
+  Joi.object({
+    frequency: Joi.string().valid(...RECURRENCE_FREQUENCIES),
+    interval: Joi.number().integer().min(1).max(365),
+    weekdays: Joi.array().items(Joi.number().integer().min(0).max(6)),
+    monthDay: Joi.number().integer().min(1).max(31),
+    until: Joi.date().iso(),
+    count: Joi.number().integer().min(1),
+    rrule: Joi.string().max(200),
+  }),
+);
+
+const estimateSchema = Joi.object({
+  value: Joi.number().min(0).max(1000).required(),
+  unit: Joi.string()
+    .valid(...ESTIMATE_UNITS)
+    .required(),
+});
 
 const taskSchema = Joi.object({
   title: Joi.string().required().min(3).max(100),
-  description: Joi.string().max(500),
-  status: Joi.string().valid('todo', 'in-progress', 'done'),
+  description: Joi.string().allow('').max(500),
+  status: Joi.string().max(50), // Допустимые значения зависят от рабочего процесса доски
   deadline: Joi.date().iso().greater('now'),
   assignee: Joi.object({
     id: Joi.string(),
     name: Joi.string(),
     email: Joi.string().email(),
   }),
+  board: Joi.string().hex().length(24),
+  parent: Joi.string().hex().length(24),
+  labels: Joi.array().items(Joi.string().hex().length(24)).max(50),
+  priority: Joi.string().valid(...TASK_PRIORITIES),
+  recurrence: recurrenceSchema,
+  estimate: estimateSchema,
 });
 
-export const validateTaskInput = (req: Request, res: Response, next: NextFunction) => {
-  const { error } = taskSchema.validate(req.body);
-  if (error) {
-    return res.status(400).json({
-      success: false,
-      message: error.details[0].message,
-    });
-  }
-  next();
-};
+// PUT /api/tasks/:id: поля необязательны, клиент может прислать задачу целиком (лишнее
+// отбросит pickTaskUpdates). Просроченный дедлайн остается допустимым, null снимает поле
+const taskUpdateSchema = taskSchema
+  .fork(['title'], (schema) => schema.optional())
+  .keys({
+    deadline: Joi.date().iso(),
+    assignee: taskSchema.extract('assignee').allow(null),
+    parent: Joi.string().hex().length(24).allow(null),
+    recurrence: recurrenceSchema.allow(null),
+    estimate: estimateSchema.allow(null),
+  })
+  .unknown(true);
+
+const validateWith =
+  (schema: Joi.ObjectSchema) => (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.details[0].message,
+      });
+    }
+    next();
+  };
+
+export const validateTaskInput = validateWith(taskSchema);
+export const validateTaskUpdate = validateWith(taskUpdateSchema);
@@ -0,0 +1,55 @@
+// src/models/activity.model.ts
+import { Schema, model, Types } from 'mongoose';
+import { IActivity, ACTIVITY_TYPES } from '../types/activityTypes';
+
+const FieldChangeSchema = new Schema(
+  {
+    field: { type: String, required: true },
+    from: { type: Schema.Types.Mixed },
+    to: { type: Schema.Types.Mixed },
+  },
+  { _id: false },
+);
+
+const ActivitySchema = new Schema(
+  {
+    task: { type: Types.ObjectId, ref: 'Task', required: true },
+    board: { type: Types.ObjectId, ref: 'Board' },
+    taskTitle: { type: String, required: true },
+    type: { type: String, enum: ACTIVITY_TYPES, required: true },
+    actor: {
+      id: { type: Types.ObjectId, ref: 'User', required: true },
+      name: { type: String, required: true },
+      email: { type: String, required: true },
+    },
+    changes: { type: [FieldChangeSchema], default: [] },
+  },
+  {
+    // Записи журнала не меняются, поэтому updatedAt не нужен
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+  },
+);
+
+ActivitySchema.virtual('id').get(function () {
+  return this._id.toHexString();
+});
+
+// История задачи и лента доски, от новых к старым
+ActivitySchema.index({ task: 1, _id: -1 });
+ActivitySchema.index({ board: 1, _id: -1 });
+
+export const Activity = model<IActivity>('Activity', ActivitySchema);
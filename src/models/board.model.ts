@@ -0,0 +1,84 @@
+// src/models/board.model.ts
+import { Schema, model, Types } from 'mongoose';
+import { IBoard, BOARD_ROLES } from '../types/boardTypes';
+
+const BoardMemberSchema = new Schema(
+  {
+    user: { type: Types.ObjectId, ref: 'User', required: true },
+    role: { type: String, enum: BOARD_ROLES, required: true, default: 'member' },
+    addedAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const WorkflowStatusSchema = new Schema(
+  {
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    order: { type: Number, required: true },
+    wipLimit: { type: Number, min: 1 },
+    allowedNext: { type: [String], default: undefined },
+    isFinal: { type: Boolean, default: false },
+  },
+  { _id: false },
+);
+
+const LabelSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 50 },
+    color: { type: String, required: true, match: /^#[0-9a-fA-F]{6}$/ },
+  },
+  {
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+      },
+    },
+  },
+);
+
+const BoardSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    owner: { type: Types.ObjectId, ref: 'User', required: true, index: true },
+    members: { type: [BoardMemberSchema], default: [] },
+    isPersonal: { type: Boolean, default: false },
+    workflow: {
+      statuses: { type: [WorkflowStatusSchema], default: undefined },
+    },
+    labels: { type: [LabelSchema], default: [] },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+  },
+);
+
+BoardSchema.virtual('id').get(function () {
+  return this._id.toHexString();
+});
+
+// Поиск всех досок, в которых состоит пользователь
+BoardSchema.index({ 'members.user': 1 });
+// У каждого пользователя не больше одной личной доски
+BoardSchema.index(
+  { owner: 1, isPersonal: 1 },
+  { unique: true, partialFilterExpression: { isPersonal: true } },
+);
+
+export const Board = model<IBoard>('Board', BoardSchema);
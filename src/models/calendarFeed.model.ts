@@ -0,0 +1,38 @@
+// src/models/calendarFeed.model.ts
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface ICalendarFeed extends Document {
+  user: Types.ObjectId; // Кто создал ссылку; лента видит то же, что и он
+  board?: Types.ObjectId; // Лента доски; без нее — задачи, назначенные пользователю
+  tokenHash: string; // SHA-256 токена: сам токен есть только в выданной ссылке
+  lastAccessedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Приватные ICS-ссылки (calendarFeed.service). Отзыв ссылки — удаление документа
+const CalendarFeedSchema = new Schema(
+  {
+    user: { type: Types.ObjectId, ref: 'User', required: true, index: true },
+    board: { type: Types.ObjectId, ref: 'Board', index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    lastAccessedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.tokenHash;
+      },
+    },
+  },
+);
+
+CalendarFeedSchema.virtual('id').get(function () {
+  return this._id.toHexString();
+});
+
+export const CalendarFeed = model<ICalendarFeed>('CalendarFeed', CalendarFeedSchema);
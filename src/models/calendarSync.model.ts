@@ -0,0 +1,33 @@
+// src/models/calendarSync.model.ts
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface ICalendarSyncState extends Document {
+  owner?: Types.ObjectId; // Личный календарь пользователя; без owner — общий
+  calendarId: string;
+  syncToken?: string; // nextSyncToken последней синхронизации
+  channelId?: string; // Текущий канал push-уведомлений
+  channelToken?: string; // Секрет канала, приходит в X-Goog-Channel-Token
+  resourceId?: string;
+  channelExpiresAt?: Date;
+  lastSyncedAt?: Date;
+}
+
+// Состояние синхронизации календаря → задачи (calendarSync.service), одно на календарь.
+// calendarId личных календарей ("primary") повторяется, поэтому ключ — пара с owner
+const CalendarSyncStateSchema = new Schema({
+  owner: { type: Types.ObjectId, ref: 'User' },
+  calendarId: { type: String, required: true },
+  syncToken: { type: String },
+  channelId: { type: String, index: true, sparse: true },
+  channelToken: { type: String },
+  resourceId: { type: String },
+  channelExpiresAt: { type: Date },
+  lastSyncedAt: { type: Date },
+});
+
+CalendarSyncStateSchema.index({ owner: 1, calendarId: 1 }, { unique: true });
+
+export const CalendarSyncState = model<ICalendarSyncState>(
+  'CalendarSyncState',
+  CalendarSyncStateSchema,
+);
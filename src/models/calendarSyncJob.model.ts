@@ -0,0 +1,76 @@
+// src/models/calendarSyncJob.model.ts
+import { Schema, model, Types, Document } from 'mongoose';
+
+// sync_task — привести событие задачи к ее текущему состоянию (создать или обновить);
+// delete_event / patch_event — конкретная операция над событием (задачи может уже не быть)
+export type CalendarSyncJobType = 'sync_task' | 'delete_event' | 'patch_event';
+export type CalendarSyncJobStatus = 'pending' | 'running' | 'failed';
+
+export const CALENDAR_SYNC_JOB_TYPES: CalendarSyncJobType[] = [
+  'sync_task',
+  'delete_event',
+  'patch_event',
+];
+
+export interface ICalendarSyncJob extends Document {
+  type: CalendarSyncJobType;
+  task?: Types.ObjectId;
+  eventId?: string;
+  body?: Record<string, any>; // Тело патча для patch_event
+  // Календарь события для delete_event / patch_event: пользователя owner или общий
+  owner?: Types.ObjectId;
+  calendarId?: string;
+  status: CalendarSyncJobStatus;
+  attempts: number;
+  runAt: Date; // Не раньше этого времени (отсрочка после ошибки)
+  lockedAt?: Date;
+  lastError?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Очередь изменений календаря (calendarOutbox.service). Выполненные задания удаляются,
+// проваленные после всех попыток остаются со статусом failed
+const CalendarSyncJobSchema = new Schema(
+  {
+    type: { type: String, enum: CALENDAR_SYNC_JOB_TYPES, required: true },
+    task: { type: Types.ObjectId, ref: 'Task' },
+    eventId: { type: String },
+    body: { type: Schema.Types.Mixed },
+    owner: { type: Types.ObjectId, ref: 'User', index: true },
+    calendarId: { type: String },
+    status: { type: String, enum: ['pending', 'running', 'failed'], default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    runAt: { type: Date, default: Date.now },
+    lockedAt: { type: Date },
+    lastError: { type: String },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+  },
+);
+
+CalendarSyncJobSchema.virtual('id').get(function () {
+  return this._id.toHexString();
+});
+
+// Выборка готовых к выполнению заданий
+CalendarSyncJobSchema.index({ status: 1, runAt: 1 });
+// Не больше одного ожидающего sync_task на задачу: новые изменения сливаются в него
+CalendarSyncJobSchema.index(
+  { task: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { type: 'sync_task', status: 'pending' },
+    name: 'PendingTaskSyncUnique',
+  },
+);
+
+export const CalendarSyncJob = model<ICalendarSyncJob>('CalendarSyncJob', CalendarSyncJobSchema);
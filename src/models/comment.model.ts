@@ -0,0 +1,45 @@
+// src/models/comment.model.ts
+import { Schema, model, Types } from 'mongoose';
+import { IComment } from '../types/commentTypes';
+
+export const COMMENT_MAX_LENGTH = 2000;
+
+const CommentSchema = new Schema(
+  {
+    task: { type: Types.ObjectId, ref: 'Task', required: true },
+    board: { type: Types.ObjectId, ref: 'Board' },
+    author: {
+      id: { type: Types.ObjectId, ref: 'User', required: true },
+      name: { type: String, required: true },
+      email: { type: String, required: true },
+    },
+    body: { type: String, required: true, trim: true, maxlength: COMMENT_MAX_LENGTH },
+    editedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+  },
+);
+
+CommentSchema.virtual('id').get(function () {
+  return this._id.toHexString();
+});
+
+// Лента комментариев задачи в порядке создания
+CommentSchema.index({ task: 1, _id: 1 });
+
+export const Comment = model<IComment>('Comment', CommentSchema);
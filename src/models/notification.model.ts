@@ -0,0 +1,48 @@
+// src/models/notification.model.ts
+import { Schema, model, Types } from 'mongoose';
+import { INotification, NOTIFICATION_TYPES } from '../types/notificationTypes';
+
+const NotificationSchema = new Schema(
+  {
+    user: { type: Types.ObjectId, ref: 'User', required: true },
+    type: { type: String, enum: NOTIFICATION_TYPES, required: true },
+    title: { type: String, required: true, trim: true },
+    message: { type: String, trim: true, default: '' },
+    task: { type: Types.ObjectId, ref: 'Task' },
+    board: { type: Types.ObjectId, ref: 'Board' },
+    actor: {
+      id: { type: Types.ObjectId, ref: 'User' },
+      name: { type: String },
+      email: { type: String },
+    },
+    isRead: { type: Boolean, default: false },
+    readAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+        delete ret.__v;
+      },
+    },
+  },
+);
+
+NotificationSchema.virtual('id').get(function () {
+  return this._id.toHexString();
+});
+
+// Лента пользователя и счетчик непрочитанных
+NotificationSchema.index({ user: 1, _id: -1 });
+NotificationSchema.index({ user: 1, isRead: 1 });
+
+export const Notification = model<INotification>('Notification', NotificationSchema);
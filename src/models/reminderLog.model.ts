@@ -0,0 +1,33 @@
+// src/models/reminderLog.model.ts
+import { Schema, model, Types, Document } from 'mongoose';
+
+export type ReminderKind = 'reminder' | 'overdue';
+
+export interface IReminderLog extends Document {
+  task: Types.ObjectId;
+  user: Types.ObjectId;
+  kind: ReminderKind;
+  offsetMinutes: number; // 0 для просрочки
+  deadline: Date; // Дедлайн, к которому относится напоминание
+  sentAt: Date;
+}
+
+// Отметки об отправленных напоминаниях. Уникальный индекс гарантирует,
+// что после перезапуска (или на втором инстансе) напоминание не уйдет повторно
+const ReminderLogSchema = new Schema({
+  task: { type: Types.ObjectId, ref: 'Task', required: true },
+  user: { type: Types.ObjectId, ref: 'User', required: true },
+  kind: { type: String, enum: ['reminder', 'overdue'], required: true },
+  offsetMinutes: { type: Number, required: true },
+  deadline: { type: Date, required: true },
+  sentAt: { type: Date, default: Date.now },
+});
+
+ReminderLogSchema.index(
+  { task: 1, user: 1, kind: 1, offsetMinutes: 1, deadline: 1 },
+  { unique: true },
+);
+// Старые отметки больше не нужны
+ReminderLogSchema.index({ sentAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 60 });
+
+export const ReminderLog = model<IReminderLog>('ReminderLog', ReminderLogSchema);
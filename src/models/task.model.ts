@@ -1,25 +1,144 @@
 // src/models/task.model.ts
 import { Schema, model, Types } from 'mongoose';
-import { ITask } from '../types/taskTypes';
+import { ITask, TASK_PRIORITIES, ESTIMATE_UNITS, RECURRENCE_FREQUENCIES } from '../types/taskTypes';
+
+export const CHECKLIST_MAX_ITEMS = 100;
+export const ATTACHMENTS_MAX_COUNT = 20;
+
+const ChecklistItemSchema = new Schema(
+  {
+    text: { type: String, required: true, trim: true, maxlength: 300 },
+    done: { type: Boolean, default: false },
+    order: { type: Number, required: true },
+    assignee: {
+      type: new Schema(
+        {
+          id: { type: Types.ObjectId, ref: 'User', required: true },
+          name: { type: String, required: true },
+          email: { type: String, required: true },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+    doneAt: { type: Date },
+  },
+  {
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        delete ret._id;
+      },
+    },
+  },
+);
+
+const AttachmentSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 255 },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    storageKey: { type: String, required: true },
+    uploadedBy: {
+      id: { type: Types.ObjectId, ref: 'User', required: true },
+      name: { type: String, required: true },
+      email: { type: String, required: true },
+    },
+    uploadedAt: { type: Date, default: Date.now },
+  },
+  {
+    toJSON: {
+      virtuals: true,
+      transform(doc, ret) {
+        // Путь в хранилище клиенту не нужен: файл отдается по id вложения
+        delete ret._id;
+        delete ret.storageKey;
+      },
+    },
+  },
+);
+
+const RecurrenceSchema = new Schema(
+  {
+    frequency: { type: String, enum: RECURRENCE_FREQUENCIES, required: true },
+    interval: { type: Number, min: 1, max: 365, default: 1 },
+    weekdays: { type: [Number], default: undefined },
+    monthDay: { type: Number, min: 1, max: 31 },
+    until: { type: Date },
+    count: { type: Number, min: 1 },
+    occurrence: { type: Number, min: 1, default: 1 },
+    calendarSeriesId: { type: String },
+    calendarSeriesStart: { type: Number },
+    nextTask: { type: Types.ObjectId, ref: 'Task' },
+  },
+  { _id: false },
+);
 
 const TaskSchema = new Schema(
   {
     title: { type: String, required: true, trim: true },
     description: { type: String, trim: true },
+    // Набор статусов задается рабочим процессом доски (workflow.service)
     status: {
       type: String,
-      enum: ['todo', 'in-progress', 'done'],
       default: 'todo',
     },
+    // Позиция карточки в колонке статуса (taskRank.service)
+    rank: { type: String },
+    priority: { type: String, enum: TASK_PRIORITIES, default: 'medium' },
+    priorityRank: { type: Number, default: TASK_PRIORITIES.indexOf('medium') },
+    estimate: {
+      type: new Schema(
+        {
+          value: { type: Number, required: true, min: 0, max: 1000 },
+          unit: { type: String, enum: ESTIMATE_UNITS, required: true },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
     deadline: { type: Date, required: true },
     owner: { type: Types.ObjectId, ref: 'User', required: true, index: true },
+    board: { type: Types.ObjectId, ref: 'Board', index: true },
+    parent: { type: Types.ObjectId, ref: 'Task', index: true },
+    // Задачи, которые блокируют эту (A блокирует B — A в B.blockedBy)
+    blockedBy: { type: [{ type: Types.ObjectId, ref: 'Task' }], default: [], index: true },
+    labels: { type: [Types.ObjectId], default: [] },
+    recurrence: { type: RecurrenceSchema, default: undefined },
     assignee: {
       id: { type: Types.ObjectId, ref: 'User', required: true },
       name: { type: String, required: true },
       email: { type: String, required: true },
     },
     calendarEventId: { type: String, index: true },
+    // Где событие задачи (и серия): в календаре пользователя calendarOwner или, без него, в общем
+    calendarOwner: { type: Types.ObjectId, ref: 'User', index: true },
+    calendarId: { type: String },
+    // Архив: скрытая задача не видна в списке по умолчанию и не стоит в календаре
     isHidden: { type: Boolean, default: false, index: true },
+    archivedAt: { type: Date },
+    archivedBy: { type: Types.ObjectId, ref: 'User' },
+    // Растет при каждом изменении: на нем держится оптимистичная блокировка (If-Match / ETag)
+    version: { type: Number, default: 0 },
+    // Корзина: удаленная задача хранится до очистки (trash.service)
+    deletedAt: { type: Date },
+    deletedBy: { type: Types.ObjectId, ref: 'User' },
+    checklist: {
+      type: [ChecklistItemSchema],
+      default: [],
+      validate: {
+        validator: (items: unknown[]) => items.length <= CHECKLIST_MAX_ITEMS,
+        message: `Checklist cannot contain more than ${CHECKLIST_MAX_ITEMS} items`,
+      },
+    },
+    attachments: {
+      type: [AttachmentSchema],
+      default: [],
+      validate: {
+        validator: (items: unknown[]) => items.length <= ATTACHMENTS_MAX_COUNT,
+        message: `A task cannot have more than ${ATTACHMENTS_MAX_COUNT} attachments`,
+      },
+    },
   },
   {
     timestamps: true,
@@ -30,6 +149,7 @@ const TaskSchema = new Schema(
         // Опционально: убираем _id и __v из JSON ответа, оставляя только id
         delete ret._id;
         delete ret.__v;
+        delete ret.priorityRank;
       },
     },
     toObject: {
@@ -49,7 +169,73 @@ TaskSchema.virtual('id').get(function () {
   return this._id.toHexString();
 });
 
-TaskSchema.index({ owner: 1, status: 1 });
-TaskSchema.index({ owner: 1, isHidden: 1 });
+// Прогресс по чек-листу, например { done: 3, total: 5, label: '3/5 done' }
+TaskSchema.virtual('progress').get(function () {
+  const items = this.checklist || [];
+  const done = items.filter((item: any) => item.done).length;
+  return { done, total: items.length, label: `${done}/${items.length} done` };
+});
+
+// priorityRank повторяет priority числом, чтобы сортировать от срочных к низким
+TaskSchema.pre('save', function () {
+  if (this.isModified('priority')) {
+    this.priorityRank = TASK_PRIORITIES.indexOf(this.priority);
+  }
+});
+
+// version растет при любом изменении задачи. Служебные записи, которые клиенту не видны
+// (отметка о созданном экземпляре серии), передают опцию { skipVersion: true }
+TaskSchema.pre('save', function () {
+  if (!this.isNew && this.isModified()) {
+    this.version = (this.version ?? 0) + 1;
+  }
+});
+
+TaskSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function () {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (!update || this.getOptions().skipVersion) return;
+  this.setUpdate({ ...update, $inc: { ...update.$inc, version: 1 } });
+});
+
+TaskSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function () {
+  const update = this.getUpdate() as Record<string, any> | null;
+  const priority = update?.priority ?? update?.$set?.priority;
+  if (priority !== undefined && TASK_PRIORITIES.includes(priority)) {
+    this.setUpdate({
+      ...update,
+      $set: { ...update?.$set, priorityRank: TASK_PRIORITIES.indexOf(priority) },
+    });
+  }
+});
+
+// Задачи из корзины не видны обычным чтениям. Чтобы их прочитать, запрос указывает
+// deletedAt в фильтре явно. Массовые обновления (снятие меток, связей) касаются и корзины
+TaskSchema.pre(['find', 'findOne', 'countDocuments', 'distinct'], function () {
+  if (this.getFilter().deletedAt === undefined) {
+    this.where({ deletedAt: null });
+  }
+});
+
+// Индексы под фильтры GET /api/tasks (status, isHidden, метки). Видимость задач —
+// $or по доскам и исполнителю (buildVisibleTasksFilter), поэтому индексы начинаются с board
+// и assignee.id; ветку старых задач без доски закрывает индекс owner
+TaskSchema.index({ board: 1, createdAt: -1 });
+TaskSchema.index({ board: 1, status: 1 });
+TaskSchema.index({ board: 1, isHidden: 1, createdAt: -1 });
+TaskSchema.index({ board: 1, labels: 1 });
+TaskSchema.index({ 'assignee.id': 1, status: 1 });
+TaskSchema.index({ 'assignee.id': 1, isHidden: 1, createdAt: -1 });
+TaskSchema.index({ board: 1, priorityRank: -1 });
+TaskSchema.index({ board: 1, status: 1, rank: 1 });
+// Очистка корзины по сроку хранения
+TaskSchema.index({ deletedAt: 1 }, { sparse: true });
+// Поиск приближающихся и просроченных дедлайнов (reminderScheduler.service)
+TaskSchema.index({ deadline: 1 });
+// Полнотекстовый поиск (GET /api/tasks/search). Язык 'none' — без стемминга,
+// так как в задачах смешаны русский и английский текст
+TaskSchema.index(
+  { title: 'text', description: 'text' },
+  { name: 'TaskTextIndex', weights: { title: 5, description: 1 }, default_language: 'none' },
+);
 
 export const Task = model<ITask>('Task', TaskSchema);
@@ -1,11 +1,21 @@
 import { Schema, model, Document } from 'mongoose';
 
+// Подключенный Google Calendar пользователя (userCalendar.service)
+export interface IUserCalendar {
+  calendarId: string; // Календарь для событий задач; 'primary' — основной
+  email?: string; // Google-аккаунт, выдавший доступ
+  tokens: string; // OAuth-токены, зашифрованы (tokenCrypto.service)
+  connectedAt: Date;
+}
+
 export interface IUser extends Document {
   googleId: string; // Поле для хранения Google User ID (sub)
   email: string;
   name: string;
   avatar?: string;
   refreshToken?: string;
+  reminderOffsets?: number[]; // За сколько минут до дедлайна напоминать
+  googleCalendar?: IUserCalendar;
   createdAt?: Date;
   updatedAt?: Date;
   _id: string;
@@ -20,6 +30,20 @@ const UserSchema = new Schema<IUser>(
     name: { type: String, required: true },
     avatar: String,
     refreshToken: { type: String },
+    // Не задано — используются config.DEFAULT_REMINDER_OFFSETS
+    reminderOffsets: { type: [Number], default: undefined },
+    googleCalendar: {
+      type: new Schema<IUserCalendar>(
+        {
+          calendarId: { type: String, required: true },
+          email: { type: String },
+          tokens: { type: String, required: true },
+          connectedAt: { type: Date, required: true },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
   },
   { timestamps: true },
 );
@@ -27,6 +51,7 @@ UserSchema.methods.toJSON = function () {
   const user = this;
   const userObject = user.toObject();
   delete userObject.refreshToken;
+  delete userObject.googleCalendar; // Состояние календаря — GET /api/calendar/status
   delete userObject.__v; // Также убираем версию Mongoose
   // Добавляем виртуальное поле id, если оно не добавлено глобально в настройках схемы
   if (!userObject.id) {
@@ -1,13 +1,94 @@
 // src/routes/api.ts
 import { Router, Request, Response } from 'express'; // <<< Добавляем Response
-import { getTasks, createTask, updateTask, deleteTask } from '../controllers/tasks.controller';
-import { sendNotification } from '../controllers/notifications.controller';
+import {
+  getTasks,
+  searchTasks,
+  createTask,
+  updateTask,
+  deleteTask,
+  getSubtasks,
+  moveTask,
+  bulkTasks,
+} from '../controllers/tasks.controller';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  sendNotification,
+} from '../controllers/notifications.controller';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from '../controllers/comments.controller';
+import {
+  addChecklistItem,
+  updateChecklistItem,
+  toggleChecklistItem,
+  reorderChecklist,
+  deleteChecklistItem,
+} from '../controllers/checklist.controller';
+import {
+  addDependency,
+  removeDependency,
+  getTaskGraph,
+} from '../controllers/dependencies.controller';
+import {
+  getBoardLabels,
+  createBoardLabel,
+  updateBoardLabel,
+  deleteBoardLabel,
+} from '../controllers/labels.controller';
+import { getTrash, restoreTask } from '../controllers/trash.controller';
+import {
+  getAttachments,
+  authorizeAttachmentUpload,
+  uploadAttachment,
+  downloadAttachment,
+  deleteAttachment,
+} from '../controllers/attachments.controller';
+import {
+  archiveTask,
+  unarchiveTask,
+  archiveBoardDoneTasks,
+} from '../controllers/archive.controller';
+import { getTaskActivity, getBoardActivity } from '../controllers/activity.controller';
+import { getReminderSettings, updateReminderSettings } from '../controllers/users.controller';
+import {
+  getBoards,
+  createBoard,
+  getBoard,
+  updateBoard,
+  deleteBoard,
+  addBoardMember,
+  updateBoardMember,
+  removeBoardMember,
+  getBoardWorkflow,
+  updateBoardWorkflow,
+} from '../controllers/boards.controller';
 import {
   googleLoginController,
   refreshTokenController,
   logoutController,
 } from '../controllers/auth.controller';
+import {
+  receiveCalendarNotification,
+  getCalendarSyncStatus,
+  getCalendarStatus,
+  startCalendarConnect,
+  finishCalendarConnect,
+  getUserCalendars,
+  selectCalendar,
+  disconnectCalendar,
+  getCalendarFeeds,
+  createFeed,
+  revokeFeed,
+  getCalendarFeed,
+} from '../controllers/calendar.controller';
 import { authenticateWithJWT } from '../middleware/authenticateWithJWT';
+import { parseAttachmentUpload } from '../middleware/uploadMiddleware';
+import { validateTaskInput, validateTaskUpdate } from '../middleware/validationMiddleware';
 import { User } from '../models/user.model'; // <<< Импорт User
 import { IUser } from '../models/user.model'; // <<< Импорт IUser
 
@@ -28,6 +109,13 @@ authRouter.post('/refresh', refreshTokenController);
 authRouter.post('/logout', logoutController);
 router.use('/auth', authRouter);
 
+// --- Push-уведомления Google Calendar (без JWT, проверка по секрету канала) ---
+router.post('/calendar/webhook', receiveCalendarNotification);
+// --- Возврат из OAuth Google (без JWT, пользователь — из подписанного state) ---
+router.get('/calendar/oauth/callback', finishCalendarConnect);
+// --- ICS-лента задач (без JWT, доступ по токену в ссылке) ---
+router.get('/calendar/:token.ics', getCalendarFeed);
+
 // --- Роут для получения профиля (защищен JWT) ---
 // Используем AuthenticatedRequest для req
 router.get('/users/me', authenticateWithJWT, async (req: AuthenticatedRequest, res: Response) => {
@@ -55,19 +143,90 @@ router.get('/users/me', authenticateWithJWT, async (req: AuthenticatedRequest, r
   }
 });
 
+// --- Настройки напоминаний о дедлайнах ---
+router.get('/users/me/reminders', authenticateWithJWT, getReminderSettings);
+router.put('/users/me/reminders', authenticateWithJWT, updateReminderSettings);
+
+// --- Состояние синхронизации с Google Calendar ---
+router.get('/calendar/sync/status', authenticateWithJWT, getCalendarSyncStatus);
+
+// --- Личный Google Calendar пользователя (защищены JWT) ---
+router.get('/calendar/status', authenticateWithJWT, getCalendarStatus);
+router.get('/calendar/connect', authenticateWithJWT, startCalendarConnect);
+router.get('/calendar/calendars', authenticateWithJWT, getUserCalendars);
+router.put('/calendar/calendars/selected', authenticateWithJWT, selectCalendar);
+router.delete('/calendar/connection', authenticateWithJWT, disconnectCalendar);
+
+// --- Приватные ICS-ленты для Outlook / Apple Calendar (защищены JWT) ---
+router.get('/calendar/feeds', authenticateWithJWT, getCalendarFeeds);
+router.post('/calendar/feeds', authenticateWithJWT, createFeed);
+router.delete('/calendar/feeds/:id', authenticateWithJWT, revokeFeed);
+
 // --- Роуты Задач (защищенные JWT) ---
 // Middleware authenticateWithJWT применится ко всем следующим роутам /tasks
 router.use('/tasks', authenticateWithJWT);
 // Контроллеры getTasks, createTask и т.д. ТЕПЕРЬ ДОЛЖНЫ ожидать req.userId
 // Убедись, что внутри них используется req.userId и он обрабатывается правильно
 router.get('/tasks', getTasks);
-router.post('/tasks', createTask);
-router.put('/tasks/:id', updateTask);
+router.get('/tasks/search', searchTasks);
+router.get('/tasks/trash', getTrash);
+router.post('/tasks', validateTaskInput, createTask);
+router.post('/tasks/bulk', bulkTasks);
+router.put('/tasks/:id', validateTaskUpdate, updateTask);
 router.delete('/tasks/:id', deleteTask);
+router.post('/tasks/:id/move', moveTask);
+router.post('/tasks/:id/restore', restoreTask);
+router.post('/tasks/:id/archive', archiveTask);
+router.post('/tasks/:id/unarchive', unarchiveTask);
+router.get('/tasks/:id/comments', getComments);
+router.post('/tasks/:id/comments', createComment);
+router.put('/tasks/:id/comments/:commentId', updateComment);
+router.delete('/tasks/:id/comments/:commentId', deleteComment);
+router.get('/tasks/:id/activity', getTaskActivity);
+router.get('/tasks/:id/subtasks', getSubtasks);
+router.get('/tasks/:id/attachments', getAttachments);
+router.post(
+  '/tasks/:id/attachments',
+  authorizeAttachmentUpload,
+  parseAttachmentUpload,
+  uploadAttachment,
+);
+router.get('/tasks/:id/attachments/:attachmentId', downloadAttachment);
+router.delete('/tasks/:id/attachments/:attachmentId', deleteAttachment);
+router.post('/tasks/:id/dependencies', addDependency);
+router.delete('/tasks/:id/dependencies/:blockerId', removeDependency);
+router.get('/tasks/:id/graph', getTaskGraph);
+router.post('/tasks/:id/checklist', addChecklistItem);
+router.put('/tasks/:id/checklist/order', reorderChecklist);
+router.put('/tasks/:id/checklist/:itemId', updateChecklistItem);
+router.post('/tasks/:id/checklist/:itemId/toggle', toggleChecklistItem);
+router.delete('/tasks/:id/checklist/:itemId', deleteChecklistItem);
+
+// --- Роуты Досок (защищенные JWT) ---
+router.use('/boards', authenticateWithJWT);
+router.get('/boards', getBoards);
+router.post('/boards', createBoard);
+router.get('/boards/:id', getBoard);
+router.put('/boards/:id', updateBoard);
+router.delete('/boards/:id', deleteBoard);
+router.post('/boards/:id/members', addBoardMember);
+router.put('/boards/:id/members/:userId', updateBoardMember);
+router.delete('/boards/:id/members/:userId', removeBoardMember);
+router.get('/boards/:id/activity', getBoardActivity);
+router.get('/boards/:id/workflow', getBoardWorkflow);
+router.put('/boards/:id/workflow', updateBoardWorkflow);
+router.get('/boards/:id/labels', getBoardLabels);
+router.post('/boards/:id/labels', createBoardLabel);
+router.put('/boards/:id/labels/:labelId', updateBoardLabel);
+router.delete('/boards/:id/labels/:labelId', deleteBoardLabel);
+router.post('/boards/:id/archive-done', archiveBoardDoneTasks);
 
-// --- Роут Уведомлений (защищенный JWT) ---
-// Контроллер sendNotification тоже должен использовать req.userId, если ему нужен ID пользователя
-router.post('/notifications', authenticateWithJWT, sendNotification);
+// --- Роуты Уведомлений (защищенные JWT) ---
+router.use('/notifications', authenticateWithJWT);
+router.get('/notifications', getNotifications);
+router.post('/notifications/read-all', markAllNotificationsRead);
+router.post('/notifications/:id/read', markNotificationRead);
+router.post('/notifications', sendNotification);
 
 export default router;
 
@@ -0,0 +1,142 @@
+// src/scripts/checkCalendarSync.ts
+// Проверка входящей синхронизации календаря на фейковом клиенте (fakeCalendarClient).
+// Запуск: npm run calendar:check-sync. Нужна только MongoDB (MONGODB_URI, лучше отдельная база):
+// временные пользователи и задачи удаляются в конце, Google Calendar не вызывается
+import assert from 'node:assert/strict';
+import mongoose, { Types } from 'mongoose';
+import config from '../config';
+import { User } from '../models/user.model';
+import { Task } from '../models/task.model';
+import { Activity } from '../models/activity.model';
+import { Notification } from '../models/notification.model';
+import { CalendarSyncState } from '../models/calendarSync.model';
+import { CalendarSyncJob } from '../models/calendarSyncJob.model';
+import { ITask } from '../types/taskTypes';
+import {
+  setCalendarSyncClient,
+  syncCalendarChanges,
+  applyCalendarEventChange,
+} from '../services/calendarSync.service';
+import { getCalendarEventTimes } from '../services/googleCalendar.service';
+import { CALENDAR_ACTOR } from '../services/activity.service';
+import { createFakeCalendarClient } from './fakeCalendarClient';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Событие календаря со временем задачи, сдвинутым на shiftMs
+const movedEvent = (task: ITask, shiftMs: number) => {
+  const { start, end } = getCalendarEventTimes(task);
+  return {
+    id: task.calendarEventId,
+    status: 'confirmed',
+    start: { dateTime: new Date(start.getTime() + shiftMs).toISOString() },
+    end: { dateTime: new Date(end.getTime() + shiftMs).toISOString() },
+  };
+};
+
+const main = async () => {
+  await mongoose.connect(config.MONGODB_URI, { serverSelectionTimeoutMS: 5000 });
+  const runId = new Types.ObjectId().toString();
+  const fake = createFakeCalendarClient();
+  setCalendarSyncClient(fake.client);
+
+  const [owner, assignee] = await User.create([
+    { googleId: `check-${runId}-owner`, email: `owner-${runId}@check.local`, name: 'Check Owner' },
+    {
+      googleId: `check-${runId}-assignee`,
+      email: `assignee-${runId}@check.local`,
+      name: 'Check Assignee',
+    },
+  ]);
+  const ownerId = owner._id.toString();
+  const location = { owner: ownerId, calendarId: `check-${runId}` };
+  const newTask = (calendarEventId: string, calendarOwner?: string) =>
+    Task.create({
+      title: `Calendar sync check ${runId}`,
+      deadline: new Date(Date.now() + 24 * HOUR_MS),
+      owner: owner._id,
+      assignee: { id: assignee._id, name: assignee.name, email: assignee.email },
+      calendarEventId,
+      calendarOwner,
+    });
+
+  try {
+    // Личный календарь: перенос события меняет дедлайн, журнал — от владельца календаря
+    const personal = await newTask(`check-${runId}-personal`, ownerId);
+    const firstSync = await syncCalendarChanges(location);
+    assert.equal(firstSync.length, 0, 'full sync of an empty calendar changes nothing');
+
+    fake.putEvent(movedEvent(personal, 2 * HOUR_MS), location);
+    const [moved] = await syncCalendarChanges(location);
+    assert.equal(moved?.id, personal.id, 'moved event updates its task');
+    assert.equal(
+      moved.deadline.getTime(),
+      personal.deadline.getTime() + 2 * HOUR_MS,
+      'deadline follows the event end',
+    );
+    const personalActivity = await Activity.findOne({ task: personal._id, type: 'updated' });
+    assert.equal(personalActivity?.actor.id.toString(), ownerId, 'activity actor is the owner');
+    assert.equal(personalActivity?.changes[0]?.field, 'deadline');
+    const notified = await Notification.find({ task: personal._id, type: 'deadline_changed' });
+    assert.deepEqual(
+      notified.map((notification) => notification.user.toString()),
+      [assignee._id.toString()],
+      'only the assignee is notified',
+    );
+    const resync = await CalendarSyncJob.countDocuments({ task: personal._id, type: 'sync_task' });
+    assert.ok(resync > 0, 'moved event is synced back to the task duration');
+
+    // Повторная синхронизация по syncToken не видит старых изменений
+    assert.equal((await syncCalendarChanges(location)).length, 0, 'incremental sync is empty');
+
+    // Устаревший токен: одна полная синхронизация, событие уже совпадает с задачей
+    fake.expireSyncTokens();
+    assert.equal((await syncCalendarChanges(location)).length, 0, 'full sync after 410');
+
+    // Удаленное событие снимает связь с календарем, задача остается
+    fake.putEvent({ id: personal.calendarEventId, status: 'cancelled' }, location);
+    const [unlinked] = await syncCalendarChanges(location);
+    assert.equal(unlinked?.id, personal.id);
+    assert.equal(unlinked.calendarEventId, undefined, 'cancelled event unlinks the task');
+    const unlinkActivity = await Activity.findOne({
+      task: personal._id,
+      'changes.field': 'calendarEventId',
+    });
+    assert.ok(unlinkActivity, 'unlink is recorded in the activity log');
+
+    // Общий календарь: автор изменения неизвестен, журнал — от CALENDAR_ACTOR
+    const shared = await newTask(`check-${runId}-shared`);
+    const sharedMoved = await applyCalendarEventChange(movedEvent(shared, -HOUR_MS));
+    assert.ok(sharedMoved, 'shared event change updates its task');
+    const sharedActivity = await Activity.findOne({ task: shared._id, type: 'updated' });
+    assert.equal(
+      sharedActivity?.actor.name,
+      CALENDAR_ACTOR.name,
+      'shared change uses system actor',
+    );
+    const sharedNotified = await Notification.countDocuments({
+      task: shared._id,
+      type: 'deadline_changed',
+    });
+    assert.equal(sharedNotified, 2, 'owner and assignee are notified of a shared change');
+
+    console.log('Calendar sync check passed');
+  } finally {
+    const tasks = await Task.find({ title: `Calendar sync check ${runId}` }).select('_id');
+    const taskIds = tasks.map((task) => task._id);
+    await Promise.all([
+      Task.deleteMany({ _id: { $in: taskIds } }),
+      Activity.deleteMany({ task: { $in: taskIds } }),
+      Notification.deleteMany({ task: { $in: taskIds } }),
+      CalendarSyncJob.deleteMany({ task: { $in: taskIds } }),
+      CalendarSyncState.deleteMany({ owner: owner._id }),
+      User.deleteMany({ _id: { $in: [owner._id, assignee._id] } }),
+    ]);
+    await mongoose.disconnect();
+  }
+};
+
+main().catch((error) => {
+  console.error('Calendar sync check failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+// src/scripts/fakeCalendarClient.ts
+// Календари в памяти вместо Google Calendar для calendarSync.service (setCalendarSyncClient).
+// Каждое изменение события получает номер; syncToken — "поколение:номер последнего изменения"
+import { calendar_v3 } from 'googleapis';
+import { CalendarLocation } from '../services/googleCalendar.service';
+import { CalendarSyncClient } from '../services/calendarSync.service';
+import { HttpError } from '../middleware/errorHandler';
+
+interface FakeCalendar {
+  events: Map<string, { event: calendar_v3.Schema$Event; changedAt: number }>;
+  channels: Map<string, string>; // channelId → resourceId
+}
+
+export interface FakeCalendarClient {
+  client: CalendarSyncClient;
+  // Создает или меняет событие (status: 'cancelled' — удаление)
+  putEvent: (event: calendar_v3.Schema$Event, location?: CalendarLocation) => void;
+  // Следующий listChanges с выданными токенами ответит 410, как Google при устаревшем токене
+  expireSyncTokens: () => void;
+  openChannels: (location?: CalendarLocation) => string[];
+}
+
+const keyOf = (location?: CalendarLocation) =>
+  location?.owner ? `${location.owner}:${location.calendarId}` : 'shared';
+
+export const createFakeCalendarClient = (): FakeCalendarClient => {
+  const calendars = new Map<string, FakeCalendar>();
+  let sequence = 0;
+  let generation = 0;
+
+  const calendarOf = (location?: CalendarLocation) => {
+    const key = keyOf(location);
+    if (!calendars.has(key)) calendars.set(key, { events: new Map(), channels: new Map() });
+    return calendars.get(key)!;
+  };
+
+  const client: CalendarSyncClient = {
+    // Одна страница: без токена — все события, с токеном — измененные после него
+    listChanges: async (syncToken, _pageToken, location) => {
+      let since = 0;
+      if (syncToken !== undefined) {
+        const [tokenGeneration, tokenSequence] = syncToken.split(':').map(Number);
+        if (tokenGeneration !== generation || Number.isNaN(tokenSequence)) {
+          throw new HttpError(410, 'Sync token is no longer valid');
+        }
+        since = tokenSequence;
+      }
+      const events = Array.from(calendarOf(location).events.values())
+        .filter((entry) => entry.changedAt > since)
+        .map((entry) => entry.event);
+      return { events, nextSyncToken: `${generation}:${sequence}` };
+    },
+    watch: async (channel, location) => {
+      const resourceId = `fake-resource-${channel.id}`;
+      calendarOf(location).channels.set(channel.id, resourceId);
+      return { resourceId, expiration: new Date(Date.now() + channel.ttlSeconds * 1000) };
+    },
+    stop: async (channelId, _resourceId, location) =>
+      calendarOf(location).channels.delete(channelId),
+  };
+
+  return {
+    client,
+    putEvent: (event, location) => {
+      sequence += 1;
+      calendarOf(location).events.set(event.id!, { event, changedAt: sequence });
+    },
+    expireSyncTokens: () => {
+      generation += 1;
+    },
+    openChannels: (location) => Array.from(calendarOf(location).channels.keys()),
+  };
+};
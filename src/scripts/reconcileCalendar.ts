@@ -0,0 +1,23 @@
+// src/scripts/reconcileCalendar.ts
+// Сверка задач с Google Calendar. Запуск: npm run calendar:reconcile [-- --fix]
+// Без --fix только печатает отчет; с --fix ставит исправления в очередь синхронизации,
+// их выполнит воркер calendarOutbox запущенного сервера
+import mongoose from 'mongoose';
+import config from '../config';
+import { reconcileCalendar } from '../services/calendarReconcile.service';
+
+const main = async () => {
+  const fix = process.argv.includes('--fix');
+  await mongoose.connect(config.MONGODB_URI, { serverSelectionTimeoutMS: 5000 });
+  try {
+    const report = await reconcileCalendar({ fix });
+    console.log(JSON.stringify(report, null, 2));
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+main().catch((error) => {
+  console.error('Calendar reconcile failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+// src/services/activity.service.ts
+import { Types } from 'mongoose';
+import { Activity } from '../models/activity.model';
+import { User } from '../models/user.model';
+import { ITask, IAssignee } from '../types/taskTypes';
+import { ActivityType, IFieldChange } from '../types/activityTypes';
+
+// Поля задачи, изменения которых попадают в журнал
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'estimate',
+  'deadline',
+  'assignee',
+  'isHidden',
+];
+
+export type TaskSnapshot = Record<string, any>;
+
+// Автор действия: id пользователя или системный автор без учетной записи
+export type ActivityActor = string | IAssignee;
+
+// Изменения из общего Google Calendar: кто передвинул событие, неизвестно
+export const CALENDAR_ACTOR: IAssignee = {
+  id: '000000000000000000000000',
+  name: 'Google Calendar',
+  email: 'calendar@system.local',
+};
+
+export const actorIdOf = (actor: ActivityActor) => (typeof actor === 'string' ? actor : actor.id);
+
+// Имя и почта автора; undefined — пользователь не найден
+export const resolveActor = async (actor: ActivityActor): Promise<IAssignee | undefined> => {
+  if (typeof actor !== 'string') return actor;
+  const user = await User.findById(actor).select('name email');
+  return user ? { id: user._id.toString(), name: user.name, email: user.email } : undefined;
+};
+
+// Снимок отслеживаемых полей. Делать ДО изменения документа, чтобы потом сравнить
+export const snapshotTask = (task: ITask): TaskSnapshot => {
+  const snapshot: TaskSnapshot = {};
+  for (const field of TRACKED_TASK_FIELDS) {
+    const value = (task as any).get ? (task as any).get(field) : (task as any)[field];
+    if (field === 'assignee' && value) {
+      snapshot.assignee = { id: value.id?.toString(), name: value.name, email: value.email };
+    } else if (field === 'estimate' && value) {
+      snapshot.estimate = { value: value.value, unit: value.unit };
+    } else {
+      snapshot[field] = value instanceof Date ? new Date(value) : value;
+    }
+  }
+  return snapshot;
+};
+
+// Значение для сравнения: даты по времени, исполнитель по id
+const comparable = (field: string, value: any) => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.getTime();
+  if (field === 'assignee') return value.id ?? null;
+  if (field === 'estimate') return `${value.value} ${value.unit}`;
+  return value;
+};
+
+export const diffTaskSnapshots = (before: TaskSnapshot, after: TaskSnapshot): IFieldChange[] =>
+  TRACKED_TASK_FIELDS.filter(
+    (field) => comparable(field, before[field]) !== comparable(field, after[field]),
+  ).map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+
+/**
+ * Пишет событие в журнал задачи. Ошибки только логируются:
+ * сбой журнала не должен ломать основное действие пользователя.
+ */
+export const recordTaskActivity = async (
+  type: ActivityType,
+  task: ITask,
+  actorId: ActivityActor,
+  changes: IFieldChange[] = [],
+): Promise<void> => {
+  if (type === 'updated' && changes.length === 0) return;
+  try {
+    const actor = await resolveActor(actorId);
+    if (!actor) {
+      console.warn(`Activity: Actor ${actorId} not found, skipping ${type} for task ${task._id}`);
+      return;
+    }
+    await Activity.create({
+      task: task._id as Types.ObjectId,
+      board: task.board,
+      taskTitle: task.title,
+      type,
+      actor: { id: new Types.ObjectId(actor.id), name: actor.name, email: actor.email },
+      changes,
+    });
+  } catch (error: any) {
+    console.error(`Activity: Failed to record ${type} for task ${task._id}:`, error.message);
+  }
+};
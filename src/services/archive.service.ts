@@ -0,0 +1,106 @@
+// src/services/archive.service.ts
+import { Types } from 'mongoose';
+import { Task } from '../models/task.model';
+import { ITask } from '../types/taskTypes';
+import { IBoard } from '../types/boardTypes';
+import { recordTaskActivity, snapshotTask, diffTaskSnapshots } from './activity.service';
+import { removeTaskFromCalendar, returnTaskToCalendar } from './tasks.service';
+import {
+  getWorkflow,
+  getTaskWorkflow,
+  getFinalStatuses,
+  getInitialStatus,
+  findWorkflowStatus,
+  assertWipCapacity,
+} from './workflow.service';
+import { getColumnEndRank } from './taskRank.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Сколько задач архивируется за один запрос
+export const MAX_BULK_ARCHIVE = 500;
+
+/**
+ * Архивирует задачу (isHidden): она пропадает из списка задач и из календаря.
+ * Документ сохраняется.
+ */
+export const archiveTask = async (task: ITask, actorId: string): Promise<ITask> => {
+  const before = snapshotTask(task);
+  await removeTaskFromCalendar(task);
+  task.set({ isHidden: true, archivedAt: new Date(), archivedBy: new Types.ObjectId(actorId) });
+  const archived = await task.save();
+  await recordTaskActivity(
+    'updated',
+    archived,
+    actorId,
+    diffTaskSnapshots(before, snapshotTask(archived)),
+  );
+  return archived;
+};
+
+/**
+ * Возвращает задачу из архива: в конец своей колонки (или начальной, если статуса
+ * больше нет) и обратно в календарь. Бросает HttpError 409 по WIP-лимиту.
+ */
+export const unarchiveTask = async (task: ITask, actorId: string): Promise<ITask> => {
+  const workflow = await getTaskWorkflow(task);
+  const status =
+    findWorkflowStatus(workflow, task.status) ??
+    findWorkflowStatus(workflow, getInitialStatus(workflow))!;
+  await assertWipCapacity(task.board, status, task._id as Types.ObjectId);
+
+  const before = snapshotTask(task);
+  task.set({
+    isHidden: false,
+    status: status.key,
+    rank: await getColumnEndRank(task.board, status.key),
+    archivedAt: undefined,
+    archivedBy: undefined,
+  });
+  const unarchived = await task.save();
+  await returnTaskToCalendar(unarchived);
+  await recordTaskActivity(
+    'updated',
+    unarchived,
+    actorId,
+    diffTaskSnapshots(before, snapshotTask(unarchived)),
+  );
+  return unarchived;
+};
+
+/**
+ * Архивирует выполненные задачи доски, которые не менялись olderThanDays дней.
+ * Задачи обрабатываются по одной (календарь), не больше MAX_BULK_ARCHIVE за раз.
+ * Возвращает заархивированные задачи.
+ */
+export const archiveDoneTasks = async (
+  board: IBoard,
+  olderThanDays: number,
+  actorId: string,
+): Promise<ITask[]> => {
+  const boardId = board._id as Types.ObjectId;
+  const finalStatuses = getFinalStatuses(getWorkflow(board));
+  if (finalStatuses.length === 0) return [];
+
+  const cutoff = new Date(Date.now() - olderThanDays * DAY_MS);
+  const tasks = await Task.find({
+    board: boardId,
+    status: { $in: finalStatuses },
+    isHidden: { $ne: true },
+    updatedAt: { $lte: cutoff },
+  })
+    .sort({ updatedAt: 1 })
+    .limit(MAX_BULK_ARCHIVE);
+
+  const archived: ITask[] = [];
+  for (const task of tasks) {
+    try {
+      archived.push(await archiveTask(task, actorId));
+    } catch (error: any) {
+      console.error(`Archive: Failed to archive task ${task._id}:`, error.message);
+    }
+  }
+  console.log(
+    `Archive: ${archived.length} done tasks older than ${olderThanDays} days archived on board ${boardId}`,
+  );
+  return archived;
+};
@@ -0,0 +1,78 @@
+// src/services/attachmentStorage.service.ts
+import { createReadStream } from 'node:fs';
+import { mkdir, writeFile, unlink, access } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import config from '../config';
+
+/**
+ * Хранилище файлов вложений. Ключи выдает сервер (`<taskId>/<uuid>`),
+ * метаданные (имя, тип, размер) хранятся в задаче, а не в хранилище.
+ */
+export interface AttachmentStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  // null — файла нет
+  open(key: string): Promise<Readable | null>;
+  // Отсутствующий файл ошибкой не считается
+  remove(key: string): Promise<void>;
+}
+
+// Локальный диск: файл лежит в rootDir/<key>
+export const createLocalDiskStorage = (rootDir: string): AttachmentStorage => {
+  const root = path.resolve(rootDir);
+
+  // Ключ не должен выводить за пределы каталога хранилища
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data, { flag: 'wx' });
+    },
+
+    async open(key) {
+      const filePath = resolveKey(key);
+      try {
+        await access(filePath);
+      } catch {
+        return null;
+      }
+      return createReadStream(filePath);
+    },
+
+    async remove(key) {
+      try {
+        await unlink(resolveKey(key));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    },
+  };
+};
+
+let storage: AttachmentStorage = createLocalDiskStorage(config.ATTACHMENTS_DIR);
+
+export const getAttachmentStorage = (): AttachmentStorage => storage;
+
+// Подмена хранилища (например, объектным) при старте приложения
+export const setAttachmentStorage = (next: AttachmentStorage) => {
+  storage = next;
+};
+
+// Удаляет файлы вложений задач; ошибки только логируются
+export const removeAttachmentFiles = async (keys: string[]): Promise<void> => {
+  for (const key of keys) {
+    try {
+      await storage.remove(key);
+    } catch (error: any) {
+      console.error(`Attachments: Failed to remove file ${key}:`, error.message || error);
+    }
+  }
+};
@@ -0,0 +1,73 @@
+// src/services/boards.service.ts
+import { Types } from 'mongoose';
+import { Board } from '../models/board.model';
+import { IBoard, BoardRole } from '../types/boardTypes';
+
+// Чем больше число, тем больше прав у роли
+const ROLE_RANK: Record<BoardRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const hasRequiredRole = (role: BoardRole | null, required: BoardRole): boolean => {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+};
+
+// Роль пользователя на доске или null, если он не участник
+export const getMemberRole = (board: IBoard, userId: string): BoardRole | null => {
+  const member = board.members.find((m) => m.user.toString() === userId);
+  return member ? member.role : null;
+};
+
+// Находит доску и роль пользователя на ней. null, если доски нет или пользователь не участник
+export const findBoardForMember = async (
+  boardId: string,
+  userId: string,
+): Promise<{ board: IBoard; role: BoardRole } | null> => {
+  if (!Types.ObjectId.isValid(boardId)) return null;
+  const board = await Board.findById(boardId);
+  if (!board) return null;
+  const role = getMemberRole(board, userId);
+  return role ? { board, role } : null;
+};
+
+// ID всех досок, где пользователь состоит в любой роли
+export const getAccessibleBoardIds = async (userId: string): Promise<Types.ObjectId[]> => {
+  const boards = await Board.find({ 'members.user': new Types.ObjectId(userId) }).select('_id');
+  return boards.map((b) => b._id as Types.ObjectId);
+};
+
+// Есть ли доска, где состоят оба пользователя
+export const sharesBoard = async (userId: string, otherUserId: string): Promise<boolean> => {
+  const board = await Board.exists({
+    'members.user': { $all: [new Types.ObjectId(userId), new Types.ObjectId(otherUserId)] },
+  });
+  return Boolean(board);
+};
+
+// Личная доска пользователя: сюда попадают задачи, созданные без указания доски
+export const getOrCreatePersonalBoard = async (userId: string): Promise<IBoard> => {
+  const ownerId = new Types.ObjectId(userId);
+  const existing = await Board.findOne({ owner: ownerId, isPersonal: true });
+  if (existing) return existing;
+
+  console.log(`Creating personal board for user ${userId}`);
+  try {
+    return await Board.create({
+      name: 'Personal',
+      owner: ownerId,
+      isPersonal: true,
+      members: [{ user: ownerId, role: 'owner' }],
+    });
+  } catch (error: any) {
+    // Параллельный запрос уже создал доску — берем ее
+    if (error.code === 11000) {
+      const created = await Board.findOne({ owner: ownerId, isPersonal: true });
+      if (created) return created;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,294 @@
+// src/services/bulkTasks.service.ts
+import mongoose, { Types } from 'mongoose';
+import { Task } from '../models/task.model';
+import { User } from '../models/user.model';
+import { ITask } from '../types/taskTypes';
+import { resolveTaskAccess, getForbiddenUpdateFields } from './taskAccess.service';
+import { assertStatusTransition } from './workflow.service';
+import { assertBlockersResolved } from './taskDependency.service';
+import { resolveTaskLabels } from './labels.service';
+import { getColumnEndRank } from './taskRank.service';
+import { recordTaskActivity, snapshotTask, diffTaskSnapshots } from './activity.service';
+import { notifyTaskActivity } from './notification.service';
+import { saveTaskIfUnchanged, spawnNextRecurrence, detachTasksFromCalendar } from './tasks.service';
+import { moveTaskToTrash, getPurgeDate } from './trash.service';
+import { archiveTask } from './archive.service';
+import { enqueueTaskCalendarSync, enqueueCalendarOperations } from './calendarOutbox.service';
+import { CalendarBatchOperation } from './googleCalendar.service';
+import { HttpError } from '../middleware/errorHandler';
+
+export const BULK_ACTIONS = ['update', 'delete', 'archive'] as const;
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+// Сколько задач можно изменить одним запросом
+export const MAX_BULK_TASKS = 100;
+
+// Поля, которые меняются массово
+const BULK_UPDATE_FIELDS = ['status', 'assignee', 'labels', 'deadline'];
+
+export interface BulkTaskUpdates {
+  status?: string;
+  assignee?: ITask['assignee'];
+  labels?: string[];
+  deadline?: Date;
+}
+
+export interface BulkTaskRequest {
+  action: BulkAction;
+  taskIds: string[];
+  updates: BulkTaskUpdates;
+  force: boolean; // Закрыть задачи, несмотря на открытые блокеры
+}
+
+// Итог по одной задаче: status — HTTP-код, который вернул бы запрос к одной задаче
+export interface BulkTaskResult {
+  taskId: string;
+  ok: boolean;
+  status: number;
+  message?: string;
+  task?: Record<string, any>;
+  [detail: string]: any;
+}
+
+export interface BulkTaskOutcome {
+  results: BulkTaskResult[];
+  updated: ITask[]; // Измененные задачи, включая новые экземпляры серий
+  deleted: ITask[];
+}
+
+/**
+ * Проверяет тело POST /api/tasks/bulk: { action, taskIds, updates?, force? }.
+ * Исполнитель задается email, как в PUT /api/tasks/:id. Бросает HttpError 400.
+ */
+export const parseBulkRequest = async (body: any): Promise<BulkTaskRequest> => {
+  const { action, taskIds, updates, force } = body ?? {};
+  if (!BULK_ACTIONS.includes(action)) {
+    throw new HttpError(400, `action must be one of: ${BULK_ACTIONS.join(', ')}`);
+  }
+  if (!Array.isArray(taskIds) || taskIds.length === 0) {
+    throw new HttpError(400, 'taskIds must be a non-empty array of task IDs');
+  }
+  if (taskIds.length > MAX_BULK_TASKS) {
+    throw new HttpError(400, `Cannot process more than ${MAX_BULK_TASKS} tasks at once`);
+  }
+  if (!taskIds.every((id) => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+    throw new HttpError(400, 'Invalid Task ID');
+  }
+
+  const request: BulkTaskRequest = {
+    action,
+    taskIds: [...new Set<string>(taskIds)],
+    updates: {},
+    force: force === true,
+  };
+  if (action !== 'update') return request;
+
+  if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+    throw new HttpError(400, 'updates must be an object');
+  }
+  const fields = Object.keys(updates);
+  const unsupported = fields.filter((field) => !BULK_UPDATE_FIELDS.includes(field));
+  if (fields.length === 0 || unsupported.length > 0) {
+    throw new HttpError(400, `updates may only contain: ${BULK_UPDATE_FIELDS.join(', ')}`, {
+      unsupportedFields: unsupported,
+    });
+  }
+
+  if (updates.status !== undefined) {
+    if (typeof updates.status !== 'string') {
+      throw new HttpError(400, 'Status must be a string');
+    }
+    request.updates.status = updates.status;
+  }
+  if (updates.labels !== undefined) {
+    // Метки проверяются по доске каждой задачи (resolveTaskLabels)
+    request.updates.labels = updates.labels;
+  }
+  if (updates.deadline !== undefined) {
+    const deadline = new Date(updates.deadline);
+    if (updates.deadline === null || Number.isNaN(deadline.getTime())) {
+      throw new HttpError(400, 'Invalid deadline');
+    }
+    request.updates.deadline = deadline;
+  }
+  if (updates.assignee !== undefined) {
+    const email = updates.assignee?.email;
+    if (typeof email !== 'string' || !email) {
+      throw new HttpError(400, 'assignee.email is required');
+    }
+    const user = await User.findOne({ email });
+    if (!user) {
+      throw new HttpError(400, `Assignee user with email ${email} not found`);
+    }
+    request.updates.assignee = { id: user._id, name: user.name, email: user.email };
+  }
+  return request;
+};
+
+const failure = (taskId: string, error: any): BulkTaskResult => {
+  if (error instanceof HttpError) {
+    return { taskId, ok: false, status: error.status, message: error.message, ...error.details };
+  }
+  if (error.name === 'ValidationError') {
+    return { taskId, ok: false, status: 400, message: error.message };
+  }
+  console.error(`Bulk: Failed to process task ${taskId}:`, error.message || error);
+  return { taskId, ok: false, status: 500, message: 'Failed to process task' };
+};
+
+// Права те же, что у одиночных запросов (PUT, DELETE, archive). Бросает HttpError
+const assertBulkAccess = async (
+  task: ITask | undefined,
+  request: BulkTaskRequest,
+  userId: string,
+): Promise<ITask> => {
+  const access = task ? await resolveTaskAccess(task, userId) : null;
+  if (!task || !access?.canView) {
+    throw new HttpError(404, 'Task not found');
+  }
+  if (request.action === 'delete') {
+    if (!access.canDelete) {
+      throw new HttpError(403, 'Forbidden: You cannot delete this task');
+    }
+    return task;
+  }
+  if (!access.canEdit) {
+    throw new HttpError(403, 'Forbidden: You cannot edit tasks on this board');
+  }
+  if (request.action === 'archive') {
+    if (!access.canEditAllFields) {
+      throw new HttpError(403, 'Forbidden: You cannot archive this task');
+    }
+    if (task.isHidden) {
+      throw new HttpError(409, 'Task is already archived');
+    }
+    return task;
+  }
+
+  // Тот же исполнитель — не переназначение (как в PUT /api/tasks/:id)
+  const updates: Record<string, any> = { ...request.updates };
+  if (updates.assignee?.email === task.assignee.email) delete updates.assignee;
+  const forbiddenFields = getForbiddenUpdateFields(access, updates);
+  if (forbiddenFields.length > 0) {
+    throw new HttpError(403, `Forbidden: You cannot change ${forbiddenFields.join(', ')}`, {
+      forbiddenFields,
+    });
+  }
+  return task;
+};
+
+// Применяет изменения к одной задаче. Возвращает сохраненную задачу и новый экземпляр серии
+const applyBulkUpdate = async (
+  task: ITask,
+  request: BulkTaskRequest,
+  userId: string,
+): Promise<{ task: ITask; nextOccurrence: ITask | null; calendarChanged: boolean }> => {
+  const { status, assignee, labels, deadline } = request.updates;
+  const before = snapshotTask(task);
+  const changes: Record<string, any> = {};
+
+  if (status !== undefined) {
+    await assertStatusTransition(task, status);
+    await assertBlockersResolved(task, status, request.force);
+    if (status !== task.status) {
+      changes.status = status;
+      changes.rank = await getColumnEndRank(task.board, status, task._id as Types.ObjectId);
+    }
+  }
+  if (labels !== undefined) {
+    changes.labels = await resolveTaskLabels(task.board, labels);
+  }
+  const assigneeChanged = assignee !== undefined && assignee.email !== task.assignee.email;
+  if (assigneeChanged) changes.assignee = assignee;
+  const deadlineChanged =
+    deadline !== undefined && deadline.getTime() !== new Date(task.deadline).getTime();
+  if (deadlineChanged) changes.deadline = deadline;
+
+  task.set(changes);
+  const saved = await saveTaskIfUnchanged(task);
+  const diff = diffTaskSnapshots(before, snapshotTask(saved));
+  if (diff.length > 0) {
+    await recordTaskActivity('updated', saved, userId, diff);
+    await notifyTaskActivity('updated', saved, userId, diff);
+  }
+  const nextOccurrence = await spawnNextRecurrence(saved, userId);
+  // В событии календаря есть дедлайн и email исполнителя; статус и метки туда не попадают
+  return { task: saved, nextOccurrence, calendarChanged: assigneeChanged || deadlineChanged };
+};
+
+/**
+ * Выполняет действие над несколькими задачами. Каждая задача проверяется и меняется
+ * отдельно: ошибка одной не отменяет остальные. Изменения календаря уходят в очередь,
+ * которая отправляет их batch-запросами. Результаты возвращаются в порядке taskIds.
+ */
+export const runBulkTaskAction = async (
+  request: BulkTaskRequest,
+  userId: string,
+): Promise<BulkTaskOutcome> => {
+  const found = await Task.find({ _id: { $in: request.taskIds } });
+  const tasksById = new Map(found.map((task) => [String(task._id), task]));
+
+  const results = new Map<string, BulkTaskResult>();
+  const permitted: ITask[] = [];
+  for (const taskId of request.taskIds) {
+    try {
+      permitted.push(await assertBulkAccess(tasksById.get(taskId), request, userId));
+    } catch (error: any) {
+      results.set(taskId, failure(taskId, error));
+    }
+  }
+
+  const updated: ITask[] = [];
+  const deleted: ITask[] = [];
+
+  // Удаление и архив: ссылки на события снимаются заранее (removeTaskFromCalendar внутри
+  // moveTaskToTrash и archiveTask — пустой), а события удаляются одной пачкой и только
+  // у задач, которые удалось убрать: у остальных они остаются на месте
+  const calendarRemovals = new Map<string, CalendarBatchOperation[]>();
+  if (request.action !== 'update') {
+    for (const task of permitted) {
+      calendarRemovals.set(String(task._id), detachTasksFromCalendar([task]));
+    }
+  }
+  const removedEvents: CalendarBatchOperation[] = [];
+
+  for (const task of permitted) {
+    const taskId = String(task._id);
+    try {
+      if (request.action === 'delete') {
+        await moveTaskToTrash(task, userId);
+        removedEvents.push(...calendarRemovals.get(taskId)!);
+        deleted.push(task);
+        results.set(taskId, { taskId, ok: true, status: 200, purgeAt: getPurgeDate(task) });
+      } else if (request.action === 'archive') {
+        const archived = await archiveTask(task, userId);
+        removedEvents.push(...calendarRemovals.get(taskId)!);
+        updated.push(archived);
+        results.set(taskId, { taskId, ok: true, status: 200, task: archived.toJSON() });
+      } else {
+        const outcome = await applyBulkUpdate(task, request, userId);
+        updated.push(outcome.task);
+        if (outcome.nextOccurrence) updated.push(outcome.nextOccurrence);
+        if (outcome.calendarChanged && outcome.task.calendarEventId) {
+          await enqueueTaskCalendarSync(outcome.task._id as Types.ObjectId);
+        }
+        results.set(taskId, { taskId, ok: true, status: 200, task: outcome.task.toJSON() });
+      }
+    } catch (error: any) {
+      results.set(taskId, failure(taskId, error));
+    }
+  }
+
+  if (removedEvents.length > 0) {
+    await enqueueCalendarOperations(removedEvents);
+  }
+
+  const succeeded = request.taskIds.filter((taskId) => results.get(taskId)?.ok).length;
+  console.log(
+    `Bulk ${request.action} by user ${userId}: ${succeeded} of ${request.taskIds.length} tasks succeeded`,
+  );
+  return {
+    results: request.taskIds.map((taskId) => results.get(taskId)!),
+    updated,
+    deleted,
+  };
+};
@@ -0,0 +1,99 @@
+// src/services/calendarFeed.service.ts
+import { createHash, randomBytes } from 'node:crypto';
+import { FilterQuery } from 'mongoose';
+import config from '../config';
+import { CalendarFeed, ICalendarFeed } from '../models/calendarFeed.model';
+import { Task } from '../models/task.model';
+import { User } from '../models/user.model';
+import { ITask } from '../types/taskTypes';
+import { HttpError } from '../middleware/errorHandler';
+import { findBoardForMember } from './boards.service';
+import { buildVisibleTasksFilter } from './taskAccess.service';
+import { renderIcsCalendar } from './ics.service';
+
+const MAX_FEEDS_PER_USER = 20;
+// Прошедшие дедлайны в ленте: за последние 90 дней
+const FEED_PAST_DAYS = 90;
+const FEED_MAX_TASKS = 1000;
+// lastAccessedAt обновляется не чаще раза в час: клиенты опрашивают ленту постоянно
+const ACCESS_TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const getUserFeeds = (userId: string) =>
+  CalendarFeed.find({ user: userId }).sort({ createdAt: -1 });
+
+/**
+ * Создает приватную ленту: задачи, назначенные пользователю, или (boardId) задачи доски.
+ * Возвращает ленту и токен — он показывается один раз, в базе только его хеш.
+ */
+export const createCalendarFeed = async (
+  userId: string,
+  boardId?: string,
+): Promise<{ feed: ICalendarFeed; token: string }> => {
+  if (boardId && !(await findBoardForMember(boardId, userId))) {
+    throw new HttpError(404, 'Board not found');
+  }
+  if ((await CalendarFeed.countDocuments({ user: userId })) >= MAX_FEEDS_PER_USER) {
+    throw new HttpError(400, `At most ${MAX_FEEDS_PER_USER} calendar feeds are allowed`);
+  }
+  const token = randomBytes(32).toString('base64url');
+  const feed = await CalendarFeed.create({
+    user: userId,
+    board: boardId,
+    tokenHash: hashToken(token),
+  });
+  console.log(
+    `Calendar feed ${feed._id} created by user ${userId}${boardId ? ` for board ${boardId}` : ''}`,
+  );
+  return { feed, token };
+};
+
+// Отзыв ленты: ссылка сразу перестает работать
+export const revokeCalendarFeed = async (userId: string, feedId: string): Promise<void> => {
+  const result = await CalendarFeed.deleteOne({ _id: feedId, user: userId });
+  if (result.deletedCount === 0) {
+    throw new HttpError(404, 'Calendar feed not found');
+  }
+  console.log(`Calendar feed ${feedId} revoked by user ${userId}`);
+};
+
+/**
+ * ICS по токену ленты. null — токена нет или создатель ленты потерял доступ к доске:
+ * лента видит не больше, чем он сам.
+ */
+export const renderCalendarFeed = async (token: string): Promise<string | null> => {
+  const feed = await CalendarFeed.findOne({ tokenHash: hashToken(token) });
+  if (!feed) return null;
+  const user = await User.findById(feed.user).select('name');
+  if (!user) return null;
+
+  let name: string;
+  let filter: FilterQuery<ITask>;
+  if (feed.board) {
+    const access = await findBoardForMember(String(feed.board), String(feed.user));
+    if (!access) return null;
+    name = access.board.name;
+    filter = { board: feed.board };
+  } else {
+    name = `Tasks — ${user.name}`;
+    filter = await buildVisibleTasksFilter(String(feed.user), 'assigned');
+  }
+
+  // Как в Google Calendar: архивные задачи (и корзина) в ленту не попадают
+  const tasks = await Task.find({
+    ...filter,
+    isHidden: { $ne: true },
+    deadline: { $gte: new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000) },
+  })
+    .sort({ deadline: 1 })
+    .limit(FEED_MAX_TASKS);
+
+  if (
+    !feed.lastAccessedAt ||
+    Date.now() - feed.lastAccessedAt.getTime() > ACCESS_TOUCH_INTERVAL_MS
+  ) {
+    await CalendarFeed.updateOne({ _id: feed._id }, { $set: { lastAccessedAt: new Date() } });
+  }
+  return renderIcsCalendar({ name, timeZone: config.TARGET_TIMEZONE, tasks });
+};
@@ -0,0 +1,357 @@
+// src/services/calendarOutbox.service.ts
+import { Types } from 'mongoose';
+import { Task } from '../models/task.model';
+import { CalendarSyncJob, ICalendarSyncJob } from '../models/calendarSyncJob.model';
+import { ITask } from '../types/taskTypes';
+import { IFieldChange } from '../types/activityTypes';
+import {
+  runCalendarBatch,
+  buildCalendarEventPatch,
+  findCalendarEventInstance,
+  getTaskCalendarLocation,
+  isSameCalendarLocation,
+  CalendarBatchOperation,
+  CalendarLocation,
+} from './googleCalendar.service';
+import { createTaskCalendarEvent, planCalendarRemoval } from './tasks.service';
+import { getUserCalendarLocations } from './userCalendar.service';
+import { buildVisibleTasksFilter } from './taskAccess.service';
+
+// Сколько заданий выполняется за один проход (столько же операций в batch-запросе)
+const BATCH_SIZE = 50;
+const POLL_INTERVAL_MS = 10 * 1000;
+// Отсрочка после ошибки: 30 с, 1 мин, 2 мин ... не больше часа
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+export const MAX_JOB_ATTEMPTS = 8;
+// Задание "running" дольше этого — процесс упал посреди прохода
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const STATUS_JOBS_LIMIT = 100;
+
+// Поля задачи, которые видны в событии календаря
+export const CALENDAR_EVENT_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'estimate',
+  'deadline',
+  'assignee',
+];
+
+export const affectsCalendarEvent = (changes: IFieldChange[]) =>
+  changes.some((change) => CALENDAR_EVENT_FIELDS.includes(change.field));
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+let runRequested = false;
+
+// Новое задание выполняется сразу, не дожидаясь следующего опроса
+const kickCalendarOutbox = () => {
+  if (timer) setImmediate(() => processCalendarOutbox());
+};
+
+/**
+ * Ставит в очередь приведение события задачи к ее состоянию: создать, если события нет,
+ * иначе обновить. Повторные вызовы до выполнения сливаются в одно задание.
+ * Вызывать после сохранения задачи: задание читает ее из базы.
+ */
+export const enqueueTaskCalendarSync = async (taskId: Types.ObjectId | string): Promise<void> => {
+  try {
+    await CalendarSyncJob.findOneAndUpdate(
+      { type: 'sync_task', task: taskId, status: 'pending' },
+      { $set: { runAt: new Date() }, $setOnInsert: { attempts: 0 } },
+      { upsert: true },
+    );
+  } catch (error: any) {
+    // Параллельный upsert уже создал задание
+    if (error.code !== 11000) throw error;
+  }
+  kickCalendarOutbox();
+};
+
+// Ставит в очередь операции над событиями (удаление, обрыв серии)
+export const enqueueCalendarOperations = async (
+  operations: CalendarBatchOperation[],
+): Promise<void> => {
+  if (operations.length === 0) return;
+  await CalendarSyncJob.insertMany(
+    operations.map((operation) => ({
+      type: operation.method === 'DELETE' ? 'delete_event' : 'patch_event',
+      eventId: operation.eventId,
+      body: operation.body,
+      owner: operation.owner,
+      calendarId: operation.owner ? operation.calendarId : undefined,
+    })),
+  );
+  kickCalendarOutbox();
+};
+
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const completeJob = (job: ICalendarSyncJob) => CalendarSyncJob.deleteOne({ _id: job._id });
+
+const failJob = async (job: ICalendarSyncJob, message: string) => {
+  const attempts = job.attempts + 1;
+  const failed = attempts >= MAX_JOB_ATTEMPTS;
+  await CalendarSyncJob.updateOne(
+    { _id: job._id },
+    {
+      $set: {
+        attempts,
+        lastError: message,
+        status: failed ? 'failed' : 'pending',
+        runAt: new Date(Date.now() + retryDelay(attempts)),
+      },
+      $unset: { lockedAt: 1 },
+    },
+  ).catch((error: any) => {
+    // Уже есть ожидающее задание этой задачи (уникальный индекс) — оно и повторит
+    if (error.code !== 11000) throw error;
+    return completeJob(job);
+  });
+  const log = failed ? console.error : console.warn;
+  log(
+    `Calendar outbox: Job ${job._id} (${job.type}) failed, attempt ${attempts}/${MAX_JOB_ATTEMPTS}: ${message}`,
+  );
+};
+
+const claimJobs = async (): Promise<ICalendarSyncJob[]> => {
+  const now = new Date();
+  await CalendarSyncJob.updateMany(
+    { status: 'running', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    { $set: { status: 'pending' }, $unset: { lockedAt: 1 } },
+  ).catch(() => undefined);
+
+  const jobs: ICalendarSyncJob[] = [];
+  while (jobs.length < BATCH_SIZE) {
+    const job = await CalendarSyncJob.findOneAndUpdate(
+      { status: 'pending', runAt: { $lte: now } },
+      { $set: { status: 'running', lockedAt: now } },
+      { sort: { runAt: 1 }, new: true },
+    );
+    if (!job) break;
+    jobs.push(job);
+  }
+  return jobs;
+};
+
+/**
+ * Создает событие задачи в календаре location или находит ее экземпляр в существующей
+ * серии и записывает id в задачу. Если задачу за это время убрали из календаря,
+ * созданное удаляется. Возвращает текст ошибки или null.
+ */
+const linkTaskEvent = async (task: ITask, location: CalendarLocation): Promise<string | null> => {
+  const seriesId = task.recurrence?.calendarSeriesId;
+  if (seriesId) {
+    task.calendarEventId =
+      (await findCalendarEventInstance(seriesId, task.deadline, getTaskCalendarLocation(task))) ??
+      undefined;
+    if (!task.calendarEventId) return `No instance of series ${seriesId} at task deadline`;
+  } else {
+    await createTaskCalendarEvent(task, location);
+    if (!task.calendarEventId && !task.recurrence?.calendarSeriesId) {
+      return 'Failed to create calendar event';
+    }
+  }
+
+  const link: Record<string, any> = { calendarEventId: task.calendarEventId };
+  const update: Record<string, any> = { $set: link };
+  if (!seriesId) {
+    // Новое событие: запоминаем, в чьем оно календаре (без владельца — в общем)
+    if (task.calendarOwner) {
+      link.calendarOwner = task.calendarOwner;
+      link.calendarId = task.calendarId;
+    } else {
+      update.$unset = { calendarOwner: 1, calendarId: 1 };
+    }
+    if (task.recurrence) {
+      link['recurrence.calendarSeriesId'] = task.recurrence.calendarSeriesId;
+      link['recurrence.calendarSeriesStart'] = task.recurrence.calendarSeriesStart;
+    }
+  }
+  // Служебная запись: версия задачи не меняется
+  const linked = await Task.updateOne(
+    {
+      _id: task._id,
+      calendarEventId: { $exists: false },
+      isHidden: { $ne: true },
+      deletedAt: null,
+    },
+    update,
+    { skipVersion: true },
+  );
+  if (linked.modifiedCount === 0) {
+    console.log(`Calendar outbox: Task ${task._id} changed meanwhile, removing its new event`);
+    await enqueueCalendarOperations(seriesId ? [] : planCalendarRemoval(task));
+  }
+  return null;
+};
+
+/**
+ * Событие задачи не в том календаре (сменился исполнитель или его календарь):
+ * снимает ссылки и ставит в очередь удаление из старого календаря.
+ * false — задачу за это время изменили, задание повторится.
+ */
+const releaseTaskEvent = async (task: ITask): Promise<boolean> => {
+  const released = await Task.updateOne(
+    { _id: task._id, calendarEventId: task.calendarEventId ?? null },
+    {
+      $unset: {
+        calendarEventId: 1,
+        'recurrence.calendarSeriesId': 1,
+        'recurrence.calendarSeriesStart': 1,
+      },
+    },
+    { skipVersion: true },
+  );
+  if (released.modifiedCount === 0) return false;
+  await enqueueCalendarOperations(planCalendarRemoval(task));
+  task.calendarEventId = undefined;
+  if (task.recurrence) task.set('recurrence.calendarSeriesId', undefined);
+  return true;
+};
+
+// Выполняет пачку заданий: операции над событиями — одним batch-запросом
+const runJobs = async (jobs: ICalendarSyncJob[]) => {
+  const syncJobs = jobs.filter((job) => job.type === 'sync_task');
+  const tasks = await Task.find({ _id: { $in: syncJobs.map((job) => job.task) } });
+  const tasksById = new Map(tasks.map((task) => [String(task._id), task]));
+  // Где должны быть события: в календаре исполнителя, если он его подключил, иначе в общем
+  const locations = await getUserCalendarLocations(tasks.map((task) => task.assignee.id));
+
+  const batched: { job: ICalendarSyncJob; operation: CalendarBatchOperation }[] = [];
+  for (const job of jobs) {
+    const jobLocation = {
+      owner: job.owner ? String(job.owner) : undefined,
+      calendarId: job.calendarId,
+    };
+    if (job.type === 'delete_event') {
+      batched.push({ job, operation: { ...jobLocation, method: 'DELETE', eventId: job.eventId! } });
+      continue;
+    }
+    if (job.type === 'patch_event') {
+      batched.push({
+        job,
+        operation: { ...jobLocation, method: 'PATCH', eventId: job.eventId!, body: job.body },
+      });
+      continue;
+    }
+
+    // Задача удалена или в архиве: ее события убираются отдельными заданиями
+    const task = tasksById.get(String(job.task));
+    if (!task || task.isHidden) {
+      await completeJob(job);
+      continue;
+    }
+    const location = locations.get(String(task.assignee.id)) ?? {};
+    const isLinked = Boolean(task.calendarEventId || task.recurrence?.calendarSeriesId);
+    // Выполненный экземпляр остается в прошлой серии, переносится только открытый
+    if (
+      isLinked &&
+      !task.recurrence?.nextTask &&
+      !isSameCalendarLocation(getTaskCalendarLocation(task), location)
+    ) {
+      if (!(await releaseTaskEvent(task))) {
+        await failJob(job, 'Task calendar link changed while moving its event');
+        continue;
+      }
+      console.log(`Calendar outbox: Moving event of task ${task._id} to another calendar`);
+    }
+
+    if (task.calendarEventId) {
+      batched.push({
+        job,
+        operation: {
+          ...getTaskCalendarLocation(task),
+          method: 'PATCH',
+          eventId: task.calendarEventId,
+          body: buildCalendarEventPatch(task, true),
+        },
+      });
+    } else if (task.recurrence?.nextTask) {
+      // Выполненный экземпляр серии без своего события — создавать нечего
+      await completeJob(job);
+    } else {
+      try {
+        const error = await linkTaskEvent(task, location);
+        await (error ? failJob(job, error) : completeJob(job));
+      } catch (error: any) {
+        await failJob(job, error.message || String(error));
+      }
+    }
+  }
+
+  const results = await runCalendarBatch(batched.map((entry) => entry.operation));
+  for (const [index, { job, operation }] of batched.entries()) {
+    await (results[index]
+      ? completeJob(job)
+      : failJob(job, `${operation.method} of event ${operation.eventId} failed`));
+  }
+};
+
+/**
+ * Проход по очереди: выполняет готовые задания, пока они есть.
+ * Проходы не пересекаются; вызов во время прохода запускает еще один после него.
+ */
+export const processCalendarOutbox = async (): Promise<void> => {
+  if (isRunning) {
+    runRequested = true;
+    return;
+  }
+  isRunning = true;
+  try {
+    do {
+      runRequested = false;
+      let jobs = await claimJobs();
+      while (jobs.length > 0) {
+        await runJobs(jobs);
+        jobs = jobs.length === BATCH_SIZE ? await claimJobs() : [];
+      }
+    } while (runRequested);
+  } catch (error: any) {
+    console.error('Calendar outbox: Pass failed:', error.message || error);
+  } finally {
+    isRunning = false;
+  }
+};
+
+export interface CalendarOutboxStatus {
+  pending: number;
+  running: number;
+  failed: number;
+  jobs: Record<string, any>[]; // Ожидающие и проваленные, новые сначала
+}
+
+/**
+ * Очередь глазами пользователя: задания по видимым ему задачам и операции в его календаре.
+ * Тело патча не отдается — в нем текст задачи.
+ */
+export const getCalendarOutboxStatus = async (userId: string): Promise<CalendarOutboxStatus> => {
+  const taskIds = await Task.distinct('_id', await buildVisibleTasksFilter(userId));
+  const jobsFilter = { $or: [{ task: { $in: taskIds } }, { owner: userId }] };
+  const [pending, running, failed, jobs] = await Promise.all([
+    CalendarSyncJob.countDocuments({ ...jobsFilter, status: 'pending' }),
+    CalendarSyncJob.countDocuments({ ...jobsFilter, status: 'running' }),
+    CalendarSyncJob.countDocuments({ ...jobsFilter, status: 'failed' }),
+    CalendarSyncJob.find({ ...jobsFilter, status: { $in: ['pending', 'failed'] } })
+      .select('-body')
+      .sort({ updatedAt: -1 })
+      .limit(STATUS_JOBS_LIMIT),
+  ]);
+  return { pending, running, failed, jobs: jobs.map((job) => job.toJSON()) };
+};
+
+export const startCalendarOutbox = () => {
+  if (timer) return;
+  timer = setInterval(processCalendarOutbox, POLL_INTERVAL_MS);
+  processCalendarOutbox();
+  console.log('📤 Calendar outbox worker started');
+};
+
+export const stopCalendarOutbox = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
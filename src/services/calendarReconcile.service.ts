@@ -0,0 +1,212 @@
+// src/services/calendarReconcile.service.ts
+import { calendar_v3 } from 'googleapis';
+import { Task } from '../models/task.model';
+import { CalendarSyncJob } from '../models/calendarSyncJob.model';
+import { ITask } from '../types/taskTypes';
+import {
+  listCalendarEventChanges,
+  getCalendarEventTimes,
+  getTaskCalendarLocation,
+  TASK_ID_PROPERTY,
+  CalendarLocation,
+  CalendarBatchOperation,
+} from './googleCalendar.service';
+import { enqueueTaskCalendarSync, enqueueCalendarOperations } from './calendarOutbox.service';
+import { getConnectedCalendarLocations } from './userCalendar.service';
+
+const TIME_TOLERANCE_MS = 1000;
+
+export interface CalendarReconcileReport {
+  checkedTasks: number;
+  checkedEvents: number;
+  // Открытые задачи без живого события (и без задания в очереди)
+  missingEvents: { taskId: string; title: string; calendarEventId?: string }[];
+  // События приложения, на которые не ссылается ни одна задача; owner — личный календарь
+  orphanEvents: { eventId: string; summary?: string | null; taskId?: string; owner?: string }[];
+  // Время события не совпадает с дедлайном задачи
+  mismatchedTimes: {
+    taskId: string;
+    eventId: string;
+    owner?: string;
+    expected: { start: Date; end: Date };
+    actual: { start: Date; end: Date };
+  }[];
+  // Личные календари, которые не удалось прочитать (доступ отозван); их задачи не сверялись
+  unavailableCalendars: { owner: string; calendarId?: string }[];
+  fixed: boolean;
+}
+
+// События одного календаря: живые по id и id удаленных
+interface CalendarEvents {
+  location: CalendarLocation;
+  live: Map<string, calendar_v3.Schema$Event>;
+  cancelled: Set<string>;
+  referenced: Set<string>; // События, на которые ссылаются задачи этого календаря
+}
+
+// Все события календаря, включая удаленные (status 'cancelled'). null — календарь недоступен
+const listAllEvents = async (
+  location: CalendarLocation,
+): Promise<calendar_v3.Schema$Event[] | null> => {
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await listCalendarEventChanges(undefined, pageToken, location);
+    if (!page) return null;
+    events.push(...page.events);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return events;
+};
+
+// Id экземпляра серии: <id серии>_<время>. Неизмененные экземпляры в списке не приходят
+const isInstanceId = (eventId: string) => eventId.includes('_');
+
+const isSameTime = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) < TIME_TOLERANCE_MS;
+
+/**
+ * Сверяет задачи с календарями — общим и подключенными личными: задачи без событий,
+ * осиротевшие события приложения (помечены TASK_ID_PROPERTY, чужие события не трогаются)
+ * и расхождения во времени. Событие задачи ищется в том календаре, где оно записано.
+ * С fix ставит исправления в очередь calendarOutbox.service: задаче — sync_task
+ * (правда за задачей), осиротевшему событию — удаление.
+ */
+export const reconcileCalendar = async ({
+  fix = false,
+}: { fix?: boolean } = {}): Promise<CalendarReconcileReport> => {
+  const connected = await getConnectedCalendarLocations();
+  const selected = new Map(connected.map((location) => [location.owner!, location.calendarId]));
+  // Задача без calendarId живет в календаре, выбранном владельцем
+  const keyOf = (location: CalendarLocation) =>
+    location.owner
+      ? `${location.owner}:${location.calendarId ?? selected.get(location.owner)}`
+      : 'shared';
+
+  const calendars = new Map<string, CalendarEvents>();
+  const unavailableCalendars: CalendarReconcileReport['unavailableCalendars'] = [];
+  for (const location of [{}, ...connected] as CalendarLocation[]) {
+    const events = await listAllEvents(location);
+    if (!events) {
+      if (!location.owner) throw new Error('Google Calendar is not available');
+      unavailableCalendars.push({ owner: location.owner, calendarId: location.calendarId });
+      continue;
+    }
+    calendars.set(keyOf(location), {
+      location,
+      live: new Map(
+        events
+          .filter((event) => event.id && event.status !== 'cancelled')
+          .map((event) => [event.id!, event]),
+      ),
+      cancelled: new Set(
+        events.filter((event) => event.status === 'cancelled').map((event) => event.id!),
+      ),
+      referenced: new Set(),
+    });
+  }
+
+  const tasks = await Task.find({}).select(
+    'title deadline createdAt recurrence calendarEventId calendarOwner calendarId isHidden',
+  );
+  const queuedTaskIds = new Set(
+    (await CalendarSyncJob.distinct('task', { type: 'sync_task', status: { $ne: 'failed' } })).map(
+      String,
+    ),
+  );
+
+  const report: CalendarReconcileReport = {
+    checkedTasks: tasks.length,
+    checkedEvents: [...calendars.values()].reduce((sum, entry) => sum + entry.live.size, 0),
+    missingEvents: [],
+    orphanEvents: [],
+    mismatchedTimes: [],
+    unavailableCalendars,
+    fixed: fix,
+  };
+  const toSync: ITask[] = [];
+
+  for (const task of tasks) {
+    const eventId = task.calendarEventId;
+    const seriesId = task.recurrence?.calendarSeriesId;
+    const location = getTaskCalendarLocation(task);
+    const calendar = calendars.get(keyOf(location));
+    if (eventId) calendar?.referenced.add(eventId);
+    if (seriesId) calendar?.referenced.add(seriesId);
+    // Архив и выполненные экземпляры серий событий не требуют
+    if (task.isHidden || task.recurrence?.nextTask) continue;
+    // Событие в календаре, который не прочитать: сверять не с чем
+    if (eventId && !calendar) continue;
+
+    const eventGone =
+      !eventId ||
+      calendar!.cancelled.has(eventId) ||
+      (!isInstanceId(eventId) && !calendar!.live.has(eventId)) ||
+      (seriesId !== undefined && !calendar!.live.has(seriesId));
+    if (eventGone) {
+      if (!queuedTaskIds.has(String(task._id))) {
+        report.missingEvents.push({
+          taskId: String(task._id),
+          title: task.title,
+          calendarEventId: eventId,
+        });
+        toSync.push(task);
+      }
+      continue;
+    }
+
+    const event = calendar!.live.get(eventId!);
+    if (!event?.start?.dateTime || !event.end?.dateTime) continue;
+    const expected = getCalendarEventTimes(task);
+    const actual = { start: new Date(event.start.dateTime), end: new Date(event.end.dateTime) };
+    if (!isSameTime(expected.start, actual.start) || !isSameTime(expected.end, actual.end)) {
+      report.mismatchedTimes.push({
+        taskId: String(task._id),
+        eventId: eventId!,
+        owner: location.owner,
+        expected,
+        actual,
+      });
+      toSync.push(task);
+    }
+  }
+
+  const orphanOperations: CalendarBatchOperation[] = [];
+  for (const { location, live, referenced } of calendars.values()) {
+    for (const event of live.values()) {
+      const taskId = event.extendedProperties?.private?.[TASK_ID_PROPERTY];
+      if (!taskId) continue;
+      if (referenced.has(event.id!)) continue;
+      if (event.recurringEventId && referenced.has(event.recurringEventId)) continue;
+      report.orphanEvents.push({
+        eventId: event.id!,
+        summary: event.summary,
+        taskId,
+        owner: location.owner,
+      });
+      orphanOperations.push({ ...location, method: 'DELETE', eventId: event.id! });
+    }
+  }
+
+  if (fix) {
+    // Ссылку на исчезнувшее событие снимаем, чтобы sync_task создал новое
+    const danglingIds = report.missingEvents
+      .filter((entry) => entry.calendarEventId)
+      .map((entry) => entry.taskId);
+    if (danglingIds.length > 0) {
+      await Task.updateMany(
+        { _id: { $in: danglingIds } },
+        { $unset: { calendarEventId: 1, 'recurrence.calendarSeriesId': 1 } },
+        { skipVersion: true },
+      );
+    }
+    for (const task of toSync) {
+      await enqueueTaskCalendarSync(String(task._id));
+    }
+    await enqueueCalendarOperations(orphanOperations);
+  }
+
+  console.log(
+    `Calendar reconcile: ${calendars.size} calendars, ${report.missingEvents.length} missing, ${report.orphanEvents.length} orphan, ${report.mismatchedTimes.length} mismatched${fix ? ' (fixes queued)' : ''}`,
+  );
+  return report;
+};
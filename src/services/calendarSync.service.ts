@@ -0,0 +1,380 @@
+// src/services/calendarSync.service.ts
+import { randomUUID, randomBytes, timingSafeEqual } from 'node:crypto';
+import { calendar_v3 } from 'googleapis';
+import { Types } from 'mongoose';
+import config from '../config';
+import { Task } from '../models/task.model';
+import { CalendarSyncState, ICalendarSyncState } from '../models/calendarSync.model';
+import { ITask } from '../types/taskTypes';
+import {
+  listCalendarEventChanges,
+  watchCalendarEvents,
+  stopCalendarChannel,
+  getCalendarEventTimes,
+  CalendarLocation,
+} from './googleCalendar.service';
+import { getConnectedCalendarLocations } from './userCalendar.service';
+import { broadcastTaskUpdate } from './websocket.service';
+import {
+  snapshotTask,
+  diffTaskSnapshots,
+  recordTaskActivity,
+  CALENDAR_ACTOR,
+} from './activity.service';
+import { notifyTaskActivity } from './notification.service';
+import { enqueueTaskCalendarSync } from './calendarOutbox.service';
+import { HttpError } from '../middleware/errorHandler';
+
+// Канал живет неделю и продлевается за сутки до истечения
+const WATCH_TTL_SECONDS = 7 * 24 * 60 * 60;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+const WATCH_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+// Время события, совпадающее с задачей с точностью до секунды, — наше же изменение
+const TIME_TOLERANCE_MS = 1000;
+
+/**
+ * Доступ к Calendar API, нужный синхронизации. По умолчанию — googleCalendar.service;
+ * для локального запуска и проверок подменяется фейком через setCalendarSyncClient.
+ */
+export interface CalendarSyncClient {
+  listChanges: typeof listCalendarEventChanges;
+  watch: typeof watchCalendarEvents;
+  stop: typeof stopCalendarChannel;
+}
+
+let client: CalendarSyncClient = {
+  listChanges: listCalendarEventChanges,
+  watch: watchCalendarEvents,
+  stop: stopCalendarChannel,
+};
+
+export const setCalendarSyncClient = (next: CalendarSyncClient) => {
+  client = next;
+};
+
+let timer: NodeJS.Timeout | null = null;
+// Идущие синхронизации по календарям; requested — уведомление пришло во время прохода
+const syncRuns = new Map<string, { requested: boolean }>();
+
+// Общий календарь — пустой location, личный — owner и его выбранный calendarId
+const locationKey = (location: CalendarLocation) =>
+  location.owner ? `${location.owner}:${location.calendarId}` : 'shared';
+
+const stateFilter = (location: CalendarLocation) =>
+  location.owner
+    ? { owner: location.owner, calendarId: location.calendarId! }
+    : { owner: null, calendarId: config.GOOGLE_SHARED_CALENDAR_ID };
+
+const stateLocation = (state: ICalendarSyncState): CalendarLocation =>
+  state.owner ? { owner: String(state.owner), calendarId: state.calendarId } : {};
+
+const getSyncState = async (location: CalendarLocation): Promise<ICalendarSyncState> =>
+  (await CalendarSyncState.findOneAndUpdate(
+    stateFilter(location),
+    { $setOnInsert: stateFilter(location) },
+    { upsert: true, new: true },
+  ))!;
+
+const isSameTime = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) < TIME_TOLERANCE_MS;
+
+/**
+ * Переносит изменение события календаря location в задачу с тем же calendarEventId.
+ * Событие перетащили — меняется дедлайн (конец события, у экземпляра серии — начало);
+ * событие удалили — задача остается, связь с календарем снимается.
+ * Перенос дедлайна и снятие связи пишутся в журнал от владельца личного календаря,
+ * для общего — от CALENDAR_ACTOR. После переноса событие пересинхронизируется с задачей.
+ * Возвращает измененную задачу или null, если менять нечего.
+ */
+export const applyCalendarEventChange = async (
+  event: calendar_v3.Schema$Event,
+  location: CalendarLocation = {},
+): Promise<ITask | null> => {
+  if (!event.id) return null;
+  // Id события уникален только внутри календаря
+  const task = await Task.findOne({
+    calendarEventId: event.id,
+    calendarOwner: location.owner ?? null,
+  });
+  if (!task) return null;
+  const actor = location.owner ?? CALENDAR_ACTOR;
+
+  if (event.status === 'cancelled') {
+    console.log(`Calendar sync: Event ${event.id} was deleted, unlinking task ${task._id}`);
+    const unlinked = await Task.findOneAndUpdate(
+      { _id: task._id, calendarEventId: event.id },
+      { $unset: { calendarEventId: 1 } },
+      { new: true },
+    );
+    if (!unlinked) return null;
+    // calendarEventId не из TRACKED_TASK_FIELDS: изменение записывается явно
+    const changes = [{ field: 'calendarEventId', from: event.id, to: null }];
+    await recordTaskActivity('updated', unlinked, actor, changes);
+    await notifyTaskActivity('updated', unlinked, actor, changes);
+    return unlinked;
+  }
+
+  const startValue = event.start?.dateTime;
+  const endValue = event.end?.dateTime;
+  if (!startValue || !endValue) {
+    // Событие на весь день: точного времени дедлайна в нем нет
+    console.warn(`Calendar sync: Event ${event.id} has no exact time, task ${task._id} skipped`);
+    return null;
+  }
+  const start = new Date(startValue);
+  const end = new Date(endValue);
+  const expected = getCalendarEventTimes(task);
+  if (isSameTime(start, expected.start) && isSameTime(end, expected.end)) return null;
+
+  const deadline = task.recurrence ? start : end;
+  if (isSameTime(deadline, task.deadline)) {
+    // Дедлайн тот же, сдвинулось только начало: возвращаем событию время задачи
+    await enqueueTaskCalendarSync(task._id as Types.ObjectId);
+    return null;
+  }
+
+  console.log(
+    `Calendar sync: Task ${task._id} deadline moved from ${new Date(task.deadline).toISOString()} to ${deadline.toISOString()}`,
+  );
+  const before = snapshotTask(task);
+  const updated = await Task.findOneAndUpdate(
+    { _id: task._id },
+    { $set: { deadline } },
+    { new: true, runValidators: true },
+  );
+  if (!updated) return null;
+
+  const changes = diffTaskSnapshots(before, snapshotTask(updated));
+  await recordTaskActivity('updated', updated, actor, changes);
+  await notifyTaskActivity('updated', updated, actor, changes);
+  // Событие могли растянуть или сжать: возвращаем ему стандартную длительность задачи
+  await enqueueTaskCalendarSync(updated._id as Types.ObjectId);
+  return updated;
+};
+
+// Проходит все страницы изменений с последнего syncToken и сохраняет новый токен
+const runIncrementalSync = async (location: CalendarLocation): Promise<ITask[]> => {
+  const state = await getSyncState(location);
+  let syncToken = state.syncToken;
+  let pageToken: string | undefined;
+  let resetDone = false;
+  const updated: ITask[] = [];
+
+  for (;;) {
+    let page;
+    try {
+      page = await client.listChanges(syncToken, pageToken, location);
+    } catch (error: any) {
+      // Токен устарел: один раз начинаем с полной синхронизации
+      if (error instanceof HttpError && error.status === 410 && !resetDone) {
+        console.warn(
+          `Calendar sync: Sync token of ${locationKey(location)} expired, running full sync`,
+        );
+        resetDone = true;
+        syncToken = undefined;
+        pageToken = undefined;
+        continue;
+      }
+      throw error;
+    }
+    // Ошибка уже в логе; токен прежний, изменения заберем при следующем уведомлении
+    if (!page) return updated;
+
+    for (const event of page.events) {
+      const task = await applyCalendarEventChange(event, location);
+      if (task) {
+        updated.push(task);
+        broadcastTaskUpdate(task);
+      }
+    }
+    if (!page.nextPageToken) {
+      state.syncToken = page.nextSyncToken ?? syncToken;
+      break;
+    }
+    pageToken = page.nextPageToken;
+  }
+
+  state.lastSyncedAt = new Date();
+  await state.save();
+  return updated;
+};
+
+/**
+ * Забирает изменения календаря (по умолчанию общего) и обновляет задачи.
+ * Синхронизации одного календаря идут по одной: уведомление во время синхронизации
+ * запускает еще один проход после нее. Возвращает измененные задачи.
+ */
+export const syncCalendarChanges = async (location: CalendarLocation = {}): Promise<ITask[]> => {
+  const key = locationKey(location);
+  const running = syncRuns.get(key);
+  if (running) {
+    running.requested = true;
+    return [];
+  }
+  const run = { requested: false };
+  syncRuns.set(key, run);
+  const updated: ITask[] = [];
+  try {
+    do {
+      run.requested = false;
+      updated.push(...(await runIncrementalSync(location)));
+    } while (run.requested);
+  } finally {
+    syncRuns.delete(key);
+  }
+  if (updated.length > 0) {
+    console.log(`Calendar sync: ${updated.length} tasks updated from calendar ${key}`);
+  }
+  return updated;
+};
+
+const isSameSecret = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// Заголовки push-уведомления Google (X-Goog-Channel-ID, X-Goog-Channel-Token, X-Goog-Resource-State)
+export interface CalendarNotification {
+  channelId?: string;
+  token?: string;
+  resourceState?: string;
+}
+
+/**
+ * Принимает push-уведомление общего или личного календаря (календарь — по каналу).
+ * false — канал чужой или устаревший. Синхронизация запускается в фоне: Google ждет быстрый ответ.
+ */
+export const handleCalendarNotification = async (
+  notification: CalendarNotification,
+): Promise<boolean> => {
+  if (!notification.channelId) return false;
+  const state = await CalendarSyncState.findOne({ channelId: notification.channelId });
+  if (!state?.channelToken || !isSameSecret(notification.token ?? '', state.channelToken)) {
+    return false;
+  }
+  // 'sync' — подтверждение создания канала, изменений в нем нет
+  if (notification.resourceState === 'sync') return true;
+
+  syncCalendarChanges(stateLocation(state)).catch((error: any) => {
+    console.error('Calendar sync: Failed:', error.message || error);
+  });
+  return true;
+};
+
+// Открывает канал уведомлений календаря, если его нет или он скоро истечет. Старый канал закрывается
+const ensureCalendarWatch = async (location: CalendarLocation) => {
+  const address = config.GOOGLE_CALENDAR_WEBHOOK_URL!;
+  // Первый запуск: полная синхронизация выдает syncToken, с которого пойдут уведомления
+  if (!(await getSyncState(location)).syncToken) {
+    await syncCalendarChanges(location);
+  }
+
+  const state = await getSyncState(location);
+  if (
+    state.channelId &&
+    state.channelExpiresAt &&
+    state.channelExpiresAt.getTime() - Date.now() > RENEW_BEFORE_MS
+  ) {
+    return;
+  }
+
+  const channelId = randomUUID();
+  const token = randomBytes(24).toString('hex');
+  const channel = await client.watch(
+    {
+      id: channelId,
+      address,
+      token,
+      ttlSeconds: WATCH_TTL_SECONDS,
+    },
+    location,
+  );
+  if (!channel) return;
+
+  const previous = { id: state.channelId, resourceId: state.resourceId };
+  state.set({
+    channelId,
+    channelToken: token,
+    resourceId: channel.resourceId,
+    channelExpiresAt: channel.expiration,
+  });
+  await state.save();
+  console.log(
+    `Calendar sync: Watch channel ${channelId} of ${locationKey(location)} open until ${channel.expiration.toISOString()}`,
+  );
+  if (previous.id && previous.resourceId) {
+    await client.stop(previous.id, previous.resourceId, location);
+  }
+};
+
+// Закрывает канал личного календаря и забывает его состояние
+const closeSyncState = async (state: ICalendarSyncState) => {
+  if (state.channelId && state.resourceId) {
+    await client.stop(state.channelId, state.resourceId, stateLocation(state));
+  }
+  await state.deleteOne();
+  console.log(`Calendar sync: Stopped syncing calendar ${locationKey(stateLocation(state))}`);
+};
+
+/**
+ * Приводит синхронизацию личного календаря к текущему подключению: каналы прежних
+ * календарей закрываются, для current (если есть) открывается новый.
+ * Вызывается при подключении, смене календаря и (без current, до отзыва доступа) отключении.
+ */
+export const refreshUserCalendarWatch = async (userId: string, current?: CalendarLocation) => {
+  const states = await CalendarSyncState.find({ owner: userId });
+  for (const state of states) {
+    if (current && state.calendarId === current.calendarId) continue;
+    await closeSyncState(state);
+  }
+  if (current && timer) {
+    await ensureCalendarWatch(current);
+  }
+};
+
+// Каналы общего календаря и всех подключенных личных; каналы отключенных календарей закрываются
+const renewCalendarWatches = async () => {
+  const locations: CalendarLocation[] = [{}, ...(await getConnectedCalendarLocations())];
+  for (const location of locations) {
+    try {
+      await ensureCalendarWatch(location);
+    } catch (error: any) {
+      console.error(
+        `Calendar sync: Failed to renew watch channel of ${locationKey(location)}:`,
+        error.message || error,
+      );
+    }
+  }
+  const active = new Set(locations.map(locationKey));
+  const stale = await CalendarSyncState.find({ owner: { $ne: null } });
+  for (const state of stale.filter((entry) => !active.has(locationKey(stateLocation(entry))))) {
+    await closeSyncState(state);
+  }
+};
+
+export const startCalendarSync = () => {
+  if (timer) return;
+  if (!config.GOOGLE_CALENDAR_WEBHOOK_URL) {
+    console.log('📅 Calendar sync disabled: GOOGLE_CALENDAR_WEBHOOK_URL is not set');
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      await renewCalendarWatches();
+    } catch (error: any) {
+      console.error('Calendar sync: Failed to renew watch channels:', error.message || error);
+    }
+  };
+
+  timer = setInterval(tick, WATCH_CHECK_INTERVAL_MS);
+  // Раньше calendarId был уникальным сам по себе: старый индекс мешает личным "primary"
+  CalendarSyncState.syncIndexes()
+    .catch((error: any) => console.error('Calendar sync: Failed to sync indexes:', error.message))
+    .then(tick);
+  console.log(`📅 Calendar sync started (webhook ${config.GOOGLE_CALENDAR_WEBHOOK_URL})`);
+};
+
+export const stopCalendarSync = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -1,17 +1,45 @@
 import { google, calendar_v3 } from 'googleapis'; // Используем типизацию
-import { JWT } from 'google-auth-library';
+import { JWT, OAuth2Client } from 'google-auth-library';
 import path from 'path';
 import config from '../config'; // Импортируем центральный конфиг
 import { ITask } from '../types/taskTypes';
+import { toRRule } from './recurrence.service';
+import { HttpError } from '../middleware/errorHandler';
+import { getUserCalendarClient } from './userCalendar.service';
 
 // Получаем значения из конфигурации
 const { GOOGLE_SERVICE_ACCOUNT_KEY_FILENAME, GOOGLE_SHARED_CALENDAR_ID, TARGET_TIMEZONE } = config;
 
 const SCOPES = ['https://www.googleapis.com/auth/calendar.events'];
+// Длительность экземпляра повторяющегося события (начинается в момент дедлайна)
+const RECURRING_EVENT_DURATION_MS = 30 * 60 * 1000;
+const MIN_EVENT_DURATION_MS = 5 * 60 * 1000;
+// Batch-запросы Calendar API: до 50 операций в одном HTTP-запросе
+const BATCH_URL = 'https://www.googleapis.com/batch/calendar/v3';
+const MAX_BATCH_SIZE = 50;
+// Приватное свойство события с id задачи, для которой оно создано
+export const TASK_ID_PROPERTY = 'taskId';
+
+/**
+ * Где событие: в календаре пользователя owner (через его OAuth-доступ) или, без owner,
+ * в общем календаре сервисного аккаунта. Для owner без calendarId — выбранный им календарь.
+ */
+export interface CalendarLocation {
+  owner?: string;
+  calendarId?: string;
+}
+
+// Клиент API и календарь, в котором выполняется операция
+interface ResolvedCalendar {
+  calendar: calendar_v3.Calendar;
+  authClient: OAuth2Client; // Нужен для batch-запросов в обход клиента googleapis
+  calendarId: string;
+}
 
 // Переменная для хранения инициализированного клиента API Calendar
 let calendar: calendar_v3.Calendar | null = null;
 let keyPath: string | null = null; // Храним путь к ключу
+let authClient: JWT | null = null; // Нужен для batch-запросов в обход клиента googleapis
 
 const initializeCalendarClient = async (): Promise<calendar_v3.Calendar | null> => {
   // Проверяем наличие необходимых конфигурационных значений
@@ -52,6 +80,7 @@ const initializeCalendarClient = async (): Promise<calendar_v3.Calendar | null>
 
     // Создаем клиент Google Calendar API с типизацией
     calendar = google.calendar({ version: 'v3', auth });
+    authClient = auth;
     console.log('✅ Google Calendar client initialized successfully.');
     return calendar;
   } catch (error: any) {
@@ -62,51 +91,100 @@ const initializeCalendarClient = async (): Promise<calendar_v3.Calendar | null>
   }
 };
 
-// --- Функция для создания события в календаре ---
-export const createCalendarEvent = async (task: ITask): Promise<string | null> => {
-  // Проверяем инициализацию клиента
-  if (!calendar) {
-    console.log('Calendar client not initialized, attempting to initialize...');
-    const initializedClient = await initializeCalendarClient();
-    if (!initializedClient) {
-      console.error('Cannot create calendar event: Google Calendar client failed to initialize.');
-      return null;
-    }
+const formatEstimate = (task: ITask) =>
+  task.estimate
+    ? `${task.estimate.value} ${task.estimate.unit === 'hours' ? 'h' : 'SP'}`
+    : 'not estimated';
+
+// Описание события: текст задачи, приоритет, оценка и исполнитель
+export const buildCalendarEventDescription = (task: ITask): string =>
+  `Task Description: ${task.description || 'No description.'}\n\n` +
+  `Priority: ${task.priority || 'medium'}\n` +
+  `Estimate: ${formatEstimate(task)}\n\n` +
+  `Assigned to: ${task.assignee?.email || 'N/A'}`;
+
+// Срочные задачи помечаются прямо в названии, чтобы их было видно в сетке календаря
+export const buildCalendarEventSummary = (task: ITask): string =>
+  task.priority === 'urgent' || task.priority === 'high'
+    ? `[${task.priority.toUpperCase()}] ${task.title}`
+    : task.title;
+
+// Время события задачи: от создания до дедлайна (не короче 5 минут),
+// у повторяющейся — полчаса от дедлайна, чтобы дни RRULE совпадали с днями дедлайнов
+export const getCalendarEventTimes = (task: ITask): { start: Date; end: Date } => {
+  if (task.recurrence) {
+    const start = new Date(task.deadline);
+    return { start, end: new Date(start.getTime() + RECURRING_EVENT_DURATION_MS) };
   }
-  // Дополнительная проверка
-  if (!calendar || !GOOGLE_SHARED_CALENDAR_ID) {
-    console.error(
-      'Cannot create calendar event: Client or Calendar ID is missing after init attempt.',
+  const start = new Date(task.createdAt || Date.now());
+  const end = new Date(task.deadline);
+  if (end.getTime() < start.getTime() + MIN_EVENT_DURATION_MS) {
+    console.warn(
+      `GC Event Warning: Deadline ( ${end.toISOString()} ) is less than 5 minutes after start time ( ${start.toISOString()} ). Setting minimum event duration.`,
     );
+    return { start, end: new Date(start.getTime() + MIN_EVENT_DURATION_MS) };
+  }
+  return { start, end };
+};
+
+// Патч события по текущему состоянию задачи: название, описание и (withTimes) время
+export const buildCalendarEventPatch = (
+  task: ITask,
+  withTimes: boolean,
+): calendar_v3.Schema$Event => {
+  const patch: calendar_v3.Schema$Event = {
+    summary: buildCalendarEventSummary(task),
+    description: buildCalendarEventDescription(task),
+  };
+  if (withTimes) {
+    const { start, end } = getCalendarEventTimes(task);
+    patch.start = { dateTime: start.toISOString(), timeZone: TARGET_TIMEZONE };
+    patch.end = { dateTime: end.toISOString(), timeZone: TARGET_TIMEZONE };
+  }
+  return patch;
+};
+
+const resolveCalendar = async (location?: CalendarLocation): Promise<ResolvedCalendar | null> => {
+  if (location?.owner) {
+    const client = await getUserCalendarClient(location.owner);
+    if (!client) return null;
+    return { ...client, calendarId: location.calendarId ?? client.calendarId };
+  }
+  if (!calendar) await initializeCalendarClient();
+  if (!calendar || !authClient || !GOOGLE_SHARED_CALENDAR_ID) return null;
+  return { calendar, authClient, calendarId: GOOGLE_SHARED_CALENDAR_ID };
+};
+
+export const getTaskCalendarLocation = (task: ITask): CalendarLocation =>
+  task.calendarOwner ? { owner: String(task.calendarOwner), calendarId: task.calendarId } : {};
+
+export const isSameCalendarLocation = (a: CalendarLocation, b: CalendarLocation) =>
+  (a.owner ?? '') === (b.owner ?? '') && (a.owner ? a.calendarId === b.calendarId : true);
+
+// --- Функция для создания события в календаре ---
+export const createCalendarEvent = async (
+  task: ITask,
+  location?: CalendarLocation,
+): Promise<string | null> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
+    console.error('Cannot create calendar event: Client or Calendar ID is missing.');
     return null;
   }
 
   try {
-    const startTime = new Date(task.createdAt || Date.now());
-    let endTime = new Date(task.deadline);
-
-    // Проверка и установка минимальной длительности (5 минут)
-    const minDurationMillis = 5 * 60 * 1000;
-    if (endTime.getTime() <= startTime.getTime()) {
-      console.warn(
-        `GC Event Warning: Deadline ( ${endTime.toISOString()} ) is in the past or same as start time ( ${startTime.toISOString()} ). Setting minimum event duration.`,
-      );
-      endTime = new Date(startTime.getTime() + minDurationMillis);
-    } else if (endTime.getTime() < startTime.getTime() + minDurationMillis) {
-      console.warn(
-        `GC Event Warning: Deadline ( ${endTime.toISOString()} ) is less than 5 minutes after start time ( ${startTime.toISOString()} ). Setting minimum event duration.`,
-      );
-      endTime = new Date(startTime.getTime() + minDurationMillis);
-    }
+    // Повторяющаяся задача — серия событий (см. getCalendarEventTimes)
+    const { start: startTime, end: endTime } = getCalendarEventTimes(task);
+    const recurrence = task.recurrence
+      ? [toRRule(task.recurrence, task.recurrence.occurrence)]
+      : undefined;
 
     // Формируем объект события для API
     const event: calendar_v3.Schema$Event = {
-      // Убираем добавление assignee в название, используем только оригинальное
-      summary: task.title,
-      // Оставляем описание без изменений или добавляем email если нужно
-      description: `Task Description: ${task.description || 'No description.'}\n\nAssigned to: ${
-        task.assignee?.email || 'N/A'
-      }`, // Добавляем email в описание
+      // Убираем добавление assignee в название; высокий приоритет — префиксом
+      summary: buildCalendarEventSummary(task),
+      // Описание с приоритетом, оценкой и email исполнителя
+      description: buildCalendarEventDescription(task),
       start: {
         dateTime: startTime.toISOString(),
         timeZone: TARGET_TIMEZONE,
@@ -115,12 +193,15 @@ export const createCalendarEvent = async (task: ITask): Promise<string | null> =
         dateTime: endTime.toISOString(),
         timeZone: TARGET_TIMEZONE,
       },
-      // Убираем attendees чтобы избежать ошибки 403
-      // attendees: task.assignee ? [{ email: task.assignee.email }] : [],
+      recurrence,
+      // Без attendees: сервисный аккаунт не может приглашать (403), а в личном календаре
+      // исполнителя событие и так у него
       reminders: {
         useDefault: false,
         overrides: [{ method: 'popup', minutes: 180 }], // Напоминание за 3 часа
       },
+      // Метка "событие создано приложением": по ней сверка находит осиротевшие события
+      extendedProperties: { private: { [TASK_ID_PROPERTY]: String(task._id) } },
     };
 
     console.log(
@@ -129,8 +210,8 @@ export const createCalendarEvent = async (task: ITask): Promise<string | null> =
     console.log(`Event Start: ${event.start?.dateTime}, Event End: ${event.end?.dateTime}`);
 
     // Выполняем запрос к API
-    const createdEvent = await calendar.events.insert({
-      calendarId: GOOGLE_SHARED_CALENDAR_ID,
+    const createdEvent = await target.calendar.events.insert({
+      calendarId: target.calendarId,
       requestBody: event,
       // sendNotifications: true, // Можно убрать, так как нет attendees
     });
@@ -164,9 +245,10 @@ export const createCalendarEvent = async (task: ITask): Promise<string | null> =
 export const updateCalendarEvent = async (
   calendarEventId: string,
   taskUpdates: Partial<ITask>,
+  location?: CalendarLocation,
 ): Promise<boolean> => {
-  if (!calendar) await initializeCalendarClient(); // Проверяем и инициализируем, если нужно
-  if (!calendar || !GOOGLE_SHARED_CALENDAR_ID) {
+  const target = await resolveCalendar(location);
+  if (!target) {
     console.error('Cannot update calendar event: Client or Calendar ID is missing.');
     return false;
   }
@@ -180,12 +262,15 @@ export const updateCalendarEvent = async (
     if (taskUpdates.title !== undefined) {
       // Можно снова добавить имя исполнителя, если нужно
       // eventPatch.summary = `${taskUpdates.title} (Испольнитель: ${taskUpdates.assignee?.name || 'Неизвестный'})`;
-      eventPatch.summary = taskUpdates.title;
+      eventPatch.summary = buildCalendarEventSummary(taskUpdates as ITask);
     }
-    if (taskUpdates.description !== undefined) {
-      // Можно снова добавить email исполнителя
-      // eventPatch.description = `Task Description: ${taskUpdates.description}\n\nAssigned to: ${taskUpdates.assignee?.email || 'N/A'}`;
-      eventPatch.description = taskUpdates.description;
+    // Описание собирается так же, как при создании, поэтому нужны все его поля
+    if (
+      taskUpdates.description !== undefined ||
+      taskUpdates.priority !== undefined ||
+      taskUpdates.estimate !== undefined
+    ) {
+      eventPatch.description = buildCalendarEventDescription(taskUpdates as ITask);
     }
 
     // --- Обработка обновления времени ---
@@ -195,8 +280,8 @@ export const updateCalendarEvent = async (
 
       // --- Получаем текущее событие для проверки startTime ---
       console.log(`Fetching current event ${calendarEventId} to check start time...`);
-      const currentEventResponse = await calendar.events.get({
-        calendarId: GOOGLE_SHARED_CALENDAR_ID,
+      const currentEventResponse = await target.calendar.events.get({
+        calendarId: target.calendarId,
         eventId: calendarEventId,
       });
       const currentEventData = currentEventResponse.data;
@@ -257,8 +342,8 @@ export const updateCalendarEvent = async (
         `Updating Google Calendar event ${calendarEventId}... Patch data:`,
         JSON.stringify(eventPatch),
       );
-      await calendar.events.patch({
-        calendarId: GOOGLE_SHARED_CALENDAR_ID,
+      await target.calendar.events.patch({
+        calendarId: target.calendarId,
         eventId: calendarEventId,
         requestBody: eventPatch,
       });
@@ -288,18 +373,193 @@ export const updateCalendarEvent = async (
   }
 };
 
+// --- Экземпляр повторяющегося события, который начинается в момент дедлайна ---
+export const findCalendarEventInstance = async (
+  seriesId: string,
+  deadline: Date,
+  location?: CalendarLocation,
+): Promise<string | null> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
+    console.error('Cannot find calendar event instance: Client or Calendar ID is missing.');
+    return null;
+  }
+
+  try {
+    const start = new Date(deadline);
+    const response = await target.calendar.events.instances({
+      calendarId: target.calendarId,
+      eventId: seriesId,
+      timeMin: start.toISOString(),
+      timeMax: new Date(start.getTime() + 60 * 1000).toISOString(),
+      maxResults: 1,
+    });
+    const instanceId = response.data.items?.[0]?.id;
+    if (!instanceId) {
+      console.warn(`No instance of event ${seriesId} starts at ${start.toISOString()}.`);
+      return null;
+    }
+    return instanceId;
+  } catch (error: any) {
+    console.error(
+      `❌ Failed to fetch instances of Google Calendar event ${seriesId}:`,
+      error.message || error,
+    );
+    return null;
+  }
+};
+
+// --- Замена правила повторения у серии событий ---
+export const updateCalendarSeriesRule = async (
+  seriesId: string,
+  rrule: string,
+  location?: CalendarLocation,
+): Promise<boolean> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
+    console.error('Cannot update calendar series: Client or Calendar ID is missing.');
+    return false;
+  }
+
+  try {
+    await target.calendar.events.patch({
+      calendarId: target.calendarId,
+      eventId: seriesId,
+      requestBody: { recurrence: [rrule] },
+    });
+    console.log(`Google Calendar series ${seriesId} now repeats as ${rrule}.`);
+    return true;
+  } catch (error: any) {
+    console.error(
+      `❌ Failed to update recurrence of Google Calendar event ${seriesId}:`,
+      error.message || error,
+    );
+    return false;
+  }
+};
+
+// Операция над событием для runCalendarBatch (в календаре из CalendarLocation)
+export interface CalendarBatchOperation extends CalendarLocation {
+  method: 'PATCH' | 'DELETE';
+  eventId: string;
+  body?: calendar_v3.Schema$Event;
+}
+
+// HTTP-статусы частей ответа multipart/mixed по номерам из Content-ID
+const parseBatchStatuses = (body: string, count: number): number[] => {
+  const statuses: number[] = new Array(count).fill(0);
+  const pattern = /Content-ID:\s*<response-item-(\d+)>[\s\S]*?HTTP\/1\.1 (\d{3})/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    statuses[Number(match[1])] = Number(match[2]);
+  }
+  return statuses;
+};
+
+// Операции в одном календаре: по MAX_BATCH_SIZE в HTTP-запросе
+const runBatchInCalendar = async (
+  target: ResolvedCalendar,
+  operations: CalendarBatchOperation[],
+): Promise<boolean[]> => {
+  const eventsPath = `/calendar/v3/calendars/${encodeURIComponent(target.calendarId)}/events`;
+  const results: boolean[] = [];
+  for (let offset = 0; offset < operations.length; offset += MAX_BATCH_SIZE) {
+    const chunk = operations.slice(offset, offset + MAX_BATCH_SIZE);
+    const boundary = `batch_${Date.now()}_${offset}`;
+    const parts = chunk.map((operation, index) => {
+      const query = operation.method === 'DELETE' ? '?sendUpdates=none' : '';
+      const lines = [
+        `--${boundary}`,
+        'Content-Type: application/http',
+        `Content-ID: <item-${index}>`,
+        '',
+        `${operation.method} ${eventsPath}/${encodeURIComponent(operation.eventId)}${query}`,
+      ];
+      if (operation.body) {
+        lines.push('Content-Type: application/json', '', JSON.stringify(operation.body));
+      }
+      return lines.join('\r\n') + '\r\n';
+    });
+
+    try {
+      const response = await target.authClient.request<string>({
+        url: BATCH_URL,
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+        data: `${parts.join('')}--${boundary}--`,
+        responseType: 'text',
+      });
+      const statuses = parseBatchStatuses(response.data, chunk.length);
+      chunk.forEach((operation, index) => {
+        const status = statuses[index];
+        const ok =
+          (status >= 200 && status < 300) ||
+          (operation.method === 'DELETE' && (status === 404 || status === 410));
+        if (!ok) {
+          console.error(
+            `Calendar batch: ${operation.method} of event ${operation.eventId} failed (status ${status || 'unknown'})`,
+          );
+        }
+        results.push(ok);
+      });
+    } catch (error: any) {
+      console.error('❌ Calendar batch request failed:', error.message || error);
+      chunk.forEach(() => results.push(false));
+    }
+  }
+  return results;
+};
+
+/**
+ * Выполняет изменения нескольких событий batch-запросами, отдельно для каждого календаря.
+ * Возвращает успех каждой операции по порядку; 404/410 при удалении — тоже успех.
+ * Ошибки только логируются, как и в остальных функциях календаря.
+ */
+export const runCalendarBatch = async (
+  operations: CalendarBatchOperation[],
+): Promise<boolean[]> => {
+  if (operations.length === 0) return [];
+  const groups = new Map<string, number[]>();
+  operations.forEach((operation, index) => {
+    const key = `${operation.owner ?? ''}|${operation.owner ? (operation.calendarId ?? '') : ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+
+  const results: boolean[] = new Array(operations.length).fill(false);
+  for (const indexes of groups.values()) {
+    const group = indexes.map((index) => operations[index]);
+    const target = await resolveCalendar(group[0]);
+    if (!target) {
+      const where = group[0].owner ? `calendar of user ${group[0].owner}` : 'shared calendar';
+      console.error(`Cannot run calendar batch: Client or Calendar ID is missing (${where}).`);
+      continue;
+    }
+    const groupResults = await runBatchInCalendar(target, group);
+    indexes.forEach((index, position) => {
+      results[index] = groupResults[position];
+    });
+  }
+  console.log(
+    `Calendar batch: ${results.filter(Boolean).length} of ${operations.length} operations succeeded.`,
+  );
+  return results;
+};
+
 // --- Функция для удаления события из календаря ---
-export const deleteCalendarEvent = async (calendarEventId: string): Promise<boolean> => {
-  if (!calendar) await initializeCalendarClient(); // Проверяем и инициализируем
-  if (!calendar || !GOOGLE_SHARED_CALENDAR_ID) {
+export const deleteCalendarEvent = async (
+  calendarEventId: string,
+  location?: CalendarLocation,
+): Promise<boolean> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
     console.error('Cannot delete calendar event: Client or Calendar ID is missing.');
     return false;
   }
 
   try {
     console.log(`Deleting Google Calendar event ${calendarEventId}...`);
-    await calendar.events.delete({
-      calendarId: GOOGLE_SHARED_CALENDAR_ID,
+    await target.calendar.events.delete({
+      calendarId: target.calendarId,
       eventId: calendarEventId,
       sendNotifications: false, // Не отправлять уведомления об отмене
     });
@@ -327,5 +587,117 @@ export const deleteCalendarEvent = async (calendarEventId: string): Promise<bool
   }
 };
 
+// Страница изменений событий (events.list): без syncToken — все события календаря
+export interface CalendarEventChanges {
+  events: calendar_v3.Schema$Event[];
+  nextPageToken?: string;
+  nextSyncToken?: string; // Только на последней странице
+}
+
+/**
+ * Изменения событий с момента выдачи syncToken, включая удаленные (status 'cancelled').
+ * Бросает HttpError 410, если токен устарел и нужна полная синхронизация.
+ * Прочие ошибки логирует и возвращает null.
+ */
+export const listCalendarEventChanges = async (
+  syncToken?: string,
+  pageToken?: string,
+  location?: CalendarLocation,
+): Promise<CalendarEventChanges | null> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
+    console.error('Cannot list calendar changes: Client or Calendar ID is missing.');
+    return null;
+  }
+
+  try {
+    const response = await target.calendar.events.list({
+      calendarId: target.calendarId,
+      syncToken,
+      pageToken,
+      showDeleted: true,
+      maxResults: 250,
+    });
+    return {
+      events: response.data.items ?? [],
+      nextPageToken: response.data.nextPageToken ?? undefined,
+      nextSyncToken: response.data.nextSyncToken ?? undefined,
+    };
+  } catch (error: any) {
+    if (error.code === 410) {
+      throw new HttpError(410, 'Calendar sync token expired');
+    }
+    console.error('❌ Failed to list Google Calendar changes:', error.message || error);
+    return null;
+  }
+};
+
+// Канал push-уведомлений об изменениях событий календаря
+export interface CalendarWatchChannel {
+  id: string;
+  address: string; // HTTPS-адрес вебхука
+  token: string; // Приходит обратно в X-Goog-Channel-Token
+  ttlSeconds: number;
+}
+
+export const watchCalendarEvents = async (
+  channel: CalendarWatchChannel,
+  location?: CalendarLocation,
+): Promise<{ resourceId: string; expiration: Date } | null> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
+    console.error('Cannot watch calendar: Client or Calendar ID is missing.');
+    return null;
+  }
+
+  try {
+    const response = await target.calendar.events.watch({
+      calendarId: target.calendarId,
+      requestBody: {
+        id: channel.id,
+        type: 'web_hook',
+        address: channel.address,
+        token: channel.token,
+        params: { ttl: String(channel.ttlSeconds) },
+      },
+    });
+    if (!response.data.resourceId) {
+      console.error('Calendar watch response has no resourceId.');
+      return null;
+    }
+    return {
+      resourceId: response.data.resourceId,
+      expiration: new Date(
+        Number(response.data.expiration) || Date.now() + channel.ttlSeconds * 1000,
+      ),
+    };
+  } catch (error: any) {
+    console.error('❌ Failed to start Google Calendar watch:', error.message || error);
+    return null;
+  }
+};
+
+export const stopCalendarChannel = async (
+  channelId: string,
+  resourceId: string,
+  location?: CalendarLocation, // Канал останавливается тем же доступом, что его открыл
+): Promise<boolean> => {
+  const target = await resolveCalendar(location);
+  if (!target) {
+    console.error('Cannot stop calendar channel: Client is missing.');
+    return false;
+  }
+
+  try {
+    await target.calendar.channels.stop({ requestBody: { id: channelId, resourceId } });
+    return true;
+  } catch (error: any) {
+    // Канал уже истек или остановлен
+    if (error.code === 404) return true;
+    console.error(`❌ Failed to stop calendar channel ${channelId}:`, error.message || error);
+    return false;
+  }
+};
+
 // --- Инициализация клиента при загрузке модуля ---
 initializeCalendarClient();
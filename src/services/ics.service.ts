@@ -0,0 +1,193 @@
+// src/services/ics.service.ts
+import { ITask } from '../types/taskTypes';
+import { getZonedParts, getTimeZoneOffset, toRRule } from './recurrence.service';
+import {
+  buildCalendarEventSummary,
+  buildCalendarEventDescription,
+  getCalendarEventTimes,
+} from './googleCalendar.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// RFC 5545: строки длиннее 75 октетов переносятся, продолжение начинается с пробела
+const MAX_LINE_OCTETS = 75;
+const PRODUCT_ID = '-//Task Board//Tasks//EN';
+const UID_DOMAIN = 'task-board';
+// Как напоминание в createCalendarEvent: за 3 часа
+const ALARM_TRIGGER = '-PT3H';
+// Сколько лет вперед расписаны переходы на летнее время в VTIMEZONE
+const TIMEZONE_YEARS_AHEAD = 3;
+
+export interface IcsCalendar {
+  name: string; // X-WR-CALNAME: название подписки в клиенте
+  timeZone: string;
+  tasks: ITask[];
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 20261019T153000Z
+const formatUtc = (date: Date) =>
+  new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+// Время "на часах" в поясе, для DTSTART;TZID=...
+const formatLocal = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+};
+
+// +0500 / -0330
+const formatOffset = (offsetMs: number) => {
+  const minutes = Math.round(Math.abs(offsetMs) / MINUTE_MS);
+  return `${offsetMs < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Перенос по октетам, не разрывая символы UTF-8
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // У строк продолжения первый октет занят пробелом
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+interface OffsetTransition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+// Смены смещения пояса в [from, to): поиск по дням, затем с точностью до минуты
+const findOffsetTransitions = (timeZone: string, from: Date, to: Date): OffsetTransition[] => {
+  const transitions: OffsetTransition[] = [];
+  let previousOffset = getTimeZoneOffset(from, timeZone);
+  for (let time = from.getTime() + DAY_MS; time < to.getTime(); time += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone);
+    if (offset === previousOffset) continue;
+    let low = time - DAY_MS;
+    let high = time;
+    while (high - low > MINUTE_MS) {
+      const middle = Math.floor((low + high) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) low = middle;
+      else high = middle;
+    }
+    transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+    previousOffset = offset;
+  }
+  return transitions;
+};
+
+// VTIMEZONE считается медленно (поиск переходов), поэтому кешируется по поясу и году начала
+const timezoneCache = new Map<string, string[]>();
+
+/**
+ * VTIMEZONE с явными переходами на летнее время и обратно с начала года fromYear
+ * на TIMEZONE_YEARS_AHEAD лет вперед от текущего. Пояс без переходов — одна STANDARD.
+ */
+const buildTimezone = (timeZone: string, fromYear: number): string[] => {
+  const cacheKey = `${timeZone}:${fromYear}`;
+  const cached = timezoneCache.get(cacheKey);
+  if (cached) return cached;
+
+  const from = new Date(Date.UTC(fromYear, 0, 1));
+  const to = new Date(Date.UTC(new Date().getUTCFullYear() + TIMEZONE_YEARS_AHEAD + 1, 0, 1));
+  const initialOffset = getTimeZoneOffset(from, timeZone);
+  const observance = (kind: 'STANDARD' | 'DAYLIGHT', start: Date, fromMs: number, toMs: number) => [
+    `BEGIN:${kind}`,
+    // Местное время начала по прежнему смещению
+    `DTSTART:${formatUtc(new Date(start.getTime() + fromMs)).replace('Z', '')}`,
+    `TZOFFSETFROM:${formatOffset(fromMs)}`,
+    `TZOFFSETTO:${formatOffset(toMs)}`,
+    `END:${kind}`,
+  ];
+
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    `X-LIC-LOCATION:${timeZone}`,
+    ...observance('STANDARD', from, initialOffset, initialOffset),
+  ];
+  for (const transition of findOffsetTransitions(timeZone, from, to)) {
+    const kind = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(...observance(kind, transition.at, transition.offsetFrom, transition.offsetTo));
+  }
+  lines.push('END:VTIMEZONE');
+  timezoneCache.set(cacheKey, lines);
+  return lines;
+};
+
+/**
+ * VEVENT задачи: то же время, название и описание, что у события Google Calendar.
+ * Открытый экземпляр повторяющейся задачи — серия с RRULE от него,
+ * выполненные экземпляры — отдельные события.
+ */
+const buildTaskEvent = (task: ITask, timeZone: string): string[] => {
+  const { start, end } = getCalendarEventTimes(task);
+  const summary = buildCalendarEventSummary(task);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${task._id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(task.updatedAt || new Date())}`,
+    `SEQUENCE:${task.version || 0}`,
+    `DTSTART;TZID=${timeZone}:${formatLocal(start, timeZone)}`,
+    `DTEND;TZID=${timeZone}:${formatLocal(end, timeZone)}`,
+  ];
+  if (task.recurrence && !task.recurrence.nextTask) {
+    lines.push(toRRule(task.recurrence, task.recurrence.occurrence));
+  }
+  lines.push(
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(buildCalendarEventDescription(task))}`,
+    'STATUS:CONFIRMED',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(summary)}`,
+    `TRIGGER:${ALARM_TRIGGER}`,
+    'END:VALARM',
+    'END:VEVENT',
+  );
+  return lines;
+};
+
+// Календарь iCalendar (RFC 5545) с дедлайнами задач; строки через CRLF
+export const renderIcsCalendar = ({ name, timeZone, tasks }: IcsCalendar): string => {
+  const earliest = tasks.reduce(
+    (min, task) => Math.min(min, getCalendarEventTimes(task).start.getTime()),
+    Date.now(),
+  );
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    // Подсказка клиентам, как часто обновлять подписку
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...buildTimezone(timeZone, new Date(earliest).getUTCFullYear()),
+    ...tasks.flatMap((task) => buildTaskEvent(task, timeZone)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
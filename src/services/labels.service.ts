@@ -0,0 +1,88 @@
+// src/services/labels.service.ts
+import { Types } from 'mongoose';
+import { Task } from '../models/task.model';
+import { Board } from '../models/board.model';
+import { ITask } from '../types/taskTypes';
+import { IBoard, ILabel } from '../types/boardTypes';
+import { HttpError } from '../middleware/errorHandler';
+
+export const MAX_LABELS_PER_BOARD = 100;
+const LABEL_NAME_MAX_LENGTH = 50;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Проверяет метку, присланную клиентом. partial — для обновления,
+ * когда можно прислать только одно из полей. Бросает HttpError 400.
+ */
+export const parseLabelInput = (input: any, partial = false): Partial<ILabel> => {
+  const label: Partial<ILabel> = {};
+  if (input?.name !== undefined || !partial) {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > LABEL_NAME_MAX_LENGTH) {
+      throw new HttpError(400, `Label name must be 1-${LABEL_NAME_MAX_LENGTH} characters`);
+    }
+    label.name = name;
+  }
+  if (input?.color !== undefined || !partial) {
+    if (typeof input?.color !== 'string' || !COLOR_PATTERN.test(input.color)) {
+      throw new HttpError(400, 'Label color must be a hex color like #1e90ff');
+    }
+    label.color = input.color.toLowerCase();
+  }
+  return label;
+};
+
+// Имя метки уникально в пределах доски без учета регистра
+export const assertLabelNameFree = (board: IBoard, name: string, exceptId?: string) => {
+  const taken = board.labels.some(
+    (label) => label.name.toLowerCase() === name.toLowerCase() && label._id.toString() !== exceptId,
+  );
+  if (taken) {
+    throw new HttpError(409, `Label "${name}" already exists`, { code: 'LABEL_EXISTS' });
+  }
+};
+
+/**
+ * Превращает список id меток задачи в ObjectId, убирая дубли.
+ * Все метки должны быть в каталоге доски задачи. Бросает HttpError.
+ */
+export const resolveTaskLabels = async (
+  boardId: Types.ObjectId | undefined,
+  labelIds: unknown,
+): Promise<Types.ObjectId[]> => {
+  if (!Array.isArray(labelIds)) {
+    throw new HttpError(400, 'labels must be an array of label IDs');
+  }
+  const uniqueIds = [...new Set(labelIds.map(String))];
+  if (uniqueIds.length === 0) return [];
+  if (!uniqueIds.every((id) => Types.ObjectId.isValid(id))) {
+    throw new HttpError(400, 'Invalid label ID');
+  }
+
+  const board = boardId ? await Board.findById(boardId).select('labels') : null;
+  const known = new Set((board?.labels ?? []).map((label) => label._id.toString()));
+  const unknown = uniqueIds.filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new HttpError(422, 'Labels do not belong to the task board', {
+      code: 'UNKNOWN_LABEL',
+      labels: unknown,
+    });
+  }
+  return uniqueIds.map((id) => new Types.ObjectId(id));
+};
+
+// Снимает удаленную метку со всех задач доски и возвращает их обновленными.
+// updateMany повышает version, поэтому задачи перечитываются: клиенты получат новую версию
+export const removeLabelFromTasks = async (
+  boardId: Types.ObjectId,
+  labelId: string,
+): Promise<ITask[]> => {
+  const labelObjectId = new Types.ObjectId(labelId);
+  const tasks = await Task.find({ board: boardId, labels: labelObjectId }).select('_id');
+  if (tasks.length === 0) return [];
+  await Task.updateMany(
+    { board: boardId, labels: labelObjectId },
+    { $pull: { labels: labelObjectId } },
+  );
+  return Task.find({ _id: { $in: tasks.map((task) => task._id) } });
+};
@@ -0,0 +1,136 @@
+// src/services/notification.service.ts
+import { Types } from 'mongoose';
+import { Notification } from '../models/notification.model';
+import { ITask, IAssignee } from '../types/taskTypes';
+import { IFieldChange, ActivityType } from '../types/activityTypes';
+import { NotificationType, NotificationPayload } from '../types/notificationTypes';
+import { IComment } from '../types/commentTypes';
+import { emitToUser } from './websocket.service';
+import { ActivityActor, actorIdOf, resolveActor } from './activity.service';
+
+interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  task?: ITask;
+  actor?: IAssignee;
+}
+
+// Сохраняет уведомление и сразу отправляет его в комнату пользователя
+export const createNotification = async (
+  data: NewNotification,
+): Promise<NotificationPayload | null> => {
+  try {
+    const notification = await Notification.create({
+      user: new Types.ObjectId(data.userId),
+      type: data.type,
+      title: data.title,
+      message: data.message || '',
+      task: data.task?._id,
+      board: data.task?.board,
+      actor: data.actor,
+    });
+    const payload = notification.toJSON() as unknown as NotificationPayload;
+    emitToUser(data.userId, 'NOTIFICATION', payload);
+    return payload;
+  } catch (error: any) {
+    console.error(`Notifications: Failed to notify user ${data.userId}:`, error.message);
+    return null;
+  }
+};
+
+// Владелец и исполнитель задачи, кроме автора действия
+const getTaskRecipients = (task: ITask, actorId: string): string[] => {
+  const recipients = new Set<string>();
+  if (task.owner) recipients.add(task.owner.toString());
+  if (task.assignee?.id) recipients.add(task.assignee.id.toString());
+  recipients.delete(actorId);
+  return Array.from(recipients);
+};
+
+const formatDate = (value: any) => (value ? new Date(value).toISOString() : 'none');
+
+/**
+ * Уведомления по событию из журнала задачи: назначение исполнителя,
+ * смена статуса и смена дедлайна. Себе о своих действиях не уведомляем.
+ */
+export const notifyTaskActivity = async (
+  type: ActivityType,
+  task: ITask,
+  author: ActivityActor,
+  changes: IFieldChange[] = [],
+): Promise<void> => {
+  if (type === 'deleted') return;
+  try {
+    const actorId = actorIdOf(author);
+    const actor = await resolveActor(author);
+    const assigneeId = task.assignee?.id?.toString();
+    const pending: NewNotification[] = [];
+
+    const assigneeChanged = type === 'created' || changes.some((c) => c.field === 'assignee');
+    if (assigneeChanged && assigneeId && assigneeId !== actorId) {
+      pending.push({
+        userId: assigneeId,
+        type: 'task_assigned',
+        title: `You were assigned to "${task.title}"`,
+        message: actor ? `Assigned by ${actor.name}` : '',
+        task,
+        actor,
+      });
+    }
+
+    for (const change of changes) {
+      if (change.field === 'status') {
+        getTaskRecipients(task, actorId).forEach((userId) =>
+          pending.push({
+            userId,
+            type: 'status_changed',
+            title: `"${task.title}" moved to ${change.to}`,
+            message: `Status changed from ${change.from} to ${change.to}`,
+            task,
+            actor,
+          }),
+        );
+      }
+      if (change.field === 'deadline') {
+        getTaskRecipients(task, actorId).forEach((userId) =>
+          pending.push({
+            userId,
+            type: 'deadline_changed',
+            title: `Deadline of "${task.title}" changed`,
+            message: `Deadline changed from ${formatDate(change.from)} to ${formatDate(change.to)}`,
+            task,
+            actor,
+          }),
+        );
+      }
+    }
+
+    await Promise.all(pending.map((notification) => createNotification(notification)));
+  } catch (error: any) {
+    console.error(`Notifications: Failed to process ${type} of task ${task._id}:`, error.message);
+  }
+};
+
+// Новый комментарий: владельцу и исполнителю задачи, кроме автора
+export const notifyCommentAdded = async (task: ITask, comment: IComment): Promise<void> => {
+  const authorId = comment.author.id.toString();
+  const preview = comment.body.length > 140 ? `${comment.body.slice(0, 140)}…` : comment.body;
+  await Promise.all(
+    getTaskRecipients(task, authorId).map((userId) =>
+      createNotification({
+        userId,
+        type: 'comment_added',
+        title: `${comment.author.name} commented on "${task.title}"`,
+        message: preview,
+        task,
+        actor: {
+          id: authorId,
+          name: comment.author.name,
+          email: comment.author.email,
+        },
+      }),
+    ),
+  );
+};
@@ -0,0 +1,262 @@
+// src/services/recurrence.service.ts
+import { IRecurrence, RECURRENCE_FREQUENCIES, RecurrenceFrequency } from '../types/taskTypes';
+import { HttpError } from '../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Коды дней недели RRULE; индекс совпадает с Date.getDay() (0 — воскресенье)
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+};
+const MAX_INTERVAL = 365;
+// Сколько месяцев подряд может не оказаться нужного числа (например, 31-го)
+const MAX_MONTHS_LOOKAHEAD = 48;
+
+// Дата и время "на часах" в часовом поясе; month — с 1
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedDateTime => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+const zonedToUtcMs = (p: ZonedDateTime) =>
+  Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+
+// Смещение пояса относительно UTC (мс) в момент date
+export const getTimeZoneOffset = (date: Date, timeZone: string) =>
+  zonedToUtcMs(getZonedParts(date, timeZone)) - Math.floor(date.getTime() / 1000) * 1000;
+
+// Местное время в поясе -> момент времени. Вторая итерация поправляет переход на летнее время
+export const zonedTimeToUtc = (local: ZonedDateTime, timeZone: string): Date => {
+  const asUtc = zonedToUtcMs(local);
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  return new Date(asUtc - getTimeZoneOffset(new Date(firstGuess), timeZone));
+};
+
+// Номер дня в неделе, начинающейся с понедельника (как WKST=MO в RRULE)
+const mondayIndex = (weekday: number) => (weekday + 6) % 7;
+
+const daysInMonth = (year: number, monthIndex: number) =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+/**
+ * Дедлайн следующего экземпляра: дата сдвигается по правилу в часовом поясе timeZone,
+ * время на часах остается прежним. null — серия закончилась (count или until).
+ */
+export const getNextDeadline = (
+  rule: IRecurrence,
+  deadline: Date,
+  timeZone: string,
+): Date | null => {
+  if (rule.count && rule.occurrence >= rule.count) return null;
+
+  const local = getZonedParts(new Date(deadline), timeZone);
+  const interval = rule.interval || 1;
+  // Календарная дата без времени; арифметика дней в UTC не зависит от перехода на летнее время
+  let civil = Date.UTC(local.year, local.month - 1, local.day);
+
+  if (rule.frequency === 'daily') {
+    civil += interval * DAY_MS;
+  } else if (rule.frequency === 'weekly') {
+    const current = new Date(civil).getUTCDay();
+    const weekdays = (rule.weekdays?.length ? [...rule.weekdays] : [current]).sort(
+      (a, b) => mondayIndex(a) - mondayIndex(b),
+    );
+    const laterThisWeek = weekdays.find((day) => mondayIndex(day) > mondayIndex(current));
+    if (laterThisWeek !== undefined) {
+      civil += (mondayIndex(laterThisWeek) - mondayIndex(current)) * DAY_MS;
+    } else {
+      // Первый подходящий день через interval недель
+      const weekStart = civil - mondayIndex(current) * DAY_MS;
+      civil = weekStart + (7 * interval + mondayIndex(weekdays[0])) * DAY_MS;
+    }
+  } else {
+    // Как BYMONTHDAY в RRULE: месяцы без нужного числа пропускаются
+    const monthDay = rule.monthDay ?? local.day;
+    let found = false;
+    for (let step = 1; step <= MAX_MONTHS_LOOKAHEAD && !found; step++) {
+      const monthIndex = local.month - 1 + interval * step;
+      const year = local.year + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      if (daysInMonth(year, month) >= monthDay) {
+        civil = Date.UTC(year, month, monthDay);
+        found = true;
+      }
+    }
+    if (!found) return null;
+  }
+
+  const nextDate = new Date(civil);
+  const next = zonedTimeToUtc(
+    {
+      year: nextDate.getUTCFullYear(),
+      month: nextDate.getUTCMonth() + 1,
+      day: nextDate.getUTCDate(),
+      hour: local.hour,
+      minute: local.minute,
+      second: local.second,
+    },
+    timeZone,
+  );
+  if (rule.until && next.getTime() > new Date(rule.until).getTime()) return null;
+  return next;
+};
+
+const formatRRuleDate = (date: Date) =>
+  new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const parseRRuleDate = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+  const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+};
+
+// Разбирает строку вида "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10"
+const parseRRule = (text: string): Partial<IRecurrence> => {
+  const rule: Partial<IRecurrence> = {};
+  const body = text.trim().replace(/^RRULE:/i, '');
+  for (const pair of body.split(';').filter(Boolean)) {
+    const [rawKey, value = ''] = pair.split('=');
+    const key = rawKey.toUpperCase();
+    if (key === 'FREQ') {
+      rule.frequency = RRULE_FREQUENCIES[value.toUpperCase()];
+      if (!rule.frequency) {
+        throw new HttpError(400, `Unsupported RRULE frequency "${value}"`);
+      }
+    } else if (key === 'INTERVAL') {
+      rule.interval = Number(value);
+    } else if (key === 'BYDAY') {
+      rule.weekdays = value.split(',').map((code) => WEEKDAY_CODES.indexOf(code.toUpperCase()));
+    } else if (key === 'BYMONTHDAY') {
+      rule.monthDay = Number(value);
+    } else if (key === 'COUNT') {
+      rule.count = Number(value);
+    } else if (key === 'UNTIL') {
+      const until = parseRRuleDate(value);
+      if (!until) throw new HttpError(400, `Invalid RRULE UNTIL "${value}"`);
+      rule.until = until;
+    } else if (key !== 'WKST') {
+      throw new HttpError(400, `Unsupported RRULE part "${key}"`);
+    }
+  }
+  return rule;
+};
+
+/**
+ * Проверяет правило повторения, присланное клиентом: объект
+ * { frequency, interval?, weekdays?, monthDay?, until?, count? }, объект { rrule }
+ * или строка RRULE. null — повторение выключено. Бросает HttpError 400.
+ */
+export const parseRecurrenceInput = (input: any): IRecurrence | null => {
+  if (input === null) return null;
+  const raw: Partial<IRecurrence> =
+    typeof input === 'string'
+      ? parseRRule(input)
+      : typeof input?.rrule === 'string'
+        ? parseRRule(input.rrule)
+        : { ...input };
+
+  if (!raw.frequency || !RECURRENCE_FREQUENCIES.includes(raw.frequency)) {
+    throw new HttpError(
+      400,
+      `Recurrence frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`,
+    );
+  }
+  const interval = raw.interval === undefined ? 1 : Number(raw.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+    throw new HttpError(400, `Recurrence interval must be an integer from 1 to ${MAX_INTERVAL}`);
+  }
+
+  const rule: IRecurrence = { frequency: raw.frequency, interval, occurrence: 1 };
+  if (raw.weekdays !== undefined) {
+    const weekdays = raw.weekdays;
+    const isValid =
+      raw.frequency === 'weekly' &&
+      Array.isArray(weekdays) &&
+      weekdays.length > 0 &&
+      weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+    if (!isValid) {
+      throw new HttpError(400, 'Recurrence weekdays must be days 0-6 of a weekly rule');
+    }
+    rule.weekdays = [...new Set(weekdays)].sort((a, b) => a - b);
+  }
+  if (raw.monthDay !== undefined) {
+    const monthDay = Number(raw.monthDay);
+    if (
+      raw.frequency !== 'monthly' ||
+      !Number.isInteger(monthDay) ||
+      monthDay < 1 ||
+      monthDay > 31
+    ) {
+      throw new HttpError(400, 'Recurrence monthDay must be 1-31 of a monthly rule');
+    }
+    rule.monthDay = monthDay;
+  }
+  // Как в RFC 5545: COUNT и UNTIL вместе не допускаются
+  if (raw.count !== undefined && raw.until !== undefined) {
+    throw new HttpError(400, 'Recurrence can have either count or until, not both');
+  }
+  if (raw.count !== undefined) {
+    const count = Number(raw.count);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new HttpError(400, 'Recurrence count must be a positive integer');
+    }
+    rule.count = count;
+  }
+  if (raw.until !== undefined) {
+    const until = new Date(raw.until);
+    if (isNaN(until.getTime())) {
+      throw new HttpError(400, 'Invalid recurrence until date');
+    }
+    rule.until = until;
+  }
+  return rule;
+};
+
+/**
+ * Правило для Google Calendar. Серия начинается с экземпляра seriesStart,
+ * поэтому COUNT — сколько экземпляров осталось начиная с него.
+ */
+export const toRRule = (rule: IRecurrence, seriesStart = 1): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval || 1}`];
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${rule.weekdays.map((day) => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly' && rule.monthDay) {
+    parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  }
+  if (rule.count) parts.push(`COUNT=${Math.max(rule.count - seriesStart + 1, 1)}`);
+  if (rule.until) parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
+  return `RRULE:${parts.join(';')}`;
+};
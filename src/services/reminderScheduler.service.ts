@@ -0,0 +1,160 @@
+// src/services/reminderScheduler.service.ts
+import { Types } from 'mongoose';
+import config from '../config';
+import { Task } from '../models/task.model';
+import { User } from '../models/user.model';
+import { ReminderLog, ReminderKind } from '../models/reminderLog.model';
+import { ITask } from '../types/taskTypes';
+import { buildDoneChecker } from './workflow.service';
+import { createNotification } from './notification.service';
+import { emitToUser } from './websocket.service';
+
+const MINUTE = 60 * 1000;
+// Самое раннее напоминание, которое можно настроить (7 дней)
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+// Просроченные задачи старше этого окна больше не проверяем
+const OVERDUE_LOOKBACK_MS = 7 * 24 * 60 * MINUTE;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+export const getUserReminderOffsets = (offsets?: number[]): number[] =>
+  offsets && offsets.length > 0 ? offsets : config.DEFAULT_REMINDER_OFFSETS;
+
+/**
+ * Помечает напоминание отправленным. Возвращает false, если оно уже было отправлено
+ * (уникальный индекс ReminderLog) — так перезапуск не приводит к дублям.
+ */
+const claimReminder = async (
+  task: ITask,
+  userId: string,
+  kind: ReminderKind,
+  offsetMinutes: number,
+): Promise<boolean> => {
+  try {
+    await ReminderLog.create({
+      task: task._id,
+      user: new Types.ObjectId(userId),
+      kind,
+      offsetMinutes,
+      deadline: task.deadline,
+    });
+    return true;
+  } catch (error: any) {
+    if (error.code === 11000) return false;
+    throw error;
+  }
+};
+
+const formatLeft = (minutes: number) => {
+  if (minutes >= 1440) return `${Math.round(minutes / 1440)} d`;
+  if (minutes >= 60) return `${Math.round(minutes / 60)} h`;
+  return `${Math.max(minutes, 1)} min`;
+};
+
+const sendReminder = async (task: ITask, userId: string, kind: ReminderKind, now: Date) => {
+  const minutesLeft = Math.round((new Date(task.deadline).getTime() - now.getTime()) / MINUTE);
+  const taskId = String(task._id);
+
+  emitToUser(userId, 'DEADLINE_REMINDER', {
+    taskId,
+    kind,
+    deadline: task.deadline,
+    minutesLeft,
+  });
+  await createNotification({
+    userId,
+    type: kind === 'overdue' ? 'task_overdue' : 'deadline_reminder',
+    title:
+      kind === 'overdue'
+        ? `"${task.title}" is overdue`
+        : `"${task.title}" is due in ${formatLeft(minutesLeft)}`,
+    message: `Deadline: ${new Date(task.deadline).toISOString()}`,
+    task,
+  });
+  console.log(`Reminders: Sent ${kind} for task ${taskId} to user ${userId}`);
+};
+
+// Один проход: находит задачи с приближающимся или прошедшим дедлайном и рассылает напоминания
+export const runReminderCheck = async (now: Date = new Date()): Promise<void> => {
+  const windowEnd = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * MINUTE);
+  const windowStart = new Date(now.getTime() - OVERDUE_LOOKBACK_MS);
+
+  const tasks = await Task.find({
+    deadline: { $gte: windowStart, $lte: windowEnd },
+    isHidden: { $ne: true },
+  });
+  if (tasks.length === 0) return;
+
+  // Выполненные задачи определяем по процессу доски
+  const isDone = await buildDoneChecker(tasks);
+
+  const assigneeIds = [...new Set(tasks.map((t) => t.assignee?.id?.toString()).filter(Boolean))];
+  const users = await User.find({ _id: { $in: assigneeIds } }).select('reminderOffsets');
+  const offsetsByUser = new Map(
+    users.map((user) => [user._id.toString(), getUserReminderOffsets(user.reminderOffsets)]),
+  );
+
+  for (const task of tasks) {
+    if (isDone(task)) continue;
+
+    const userId = task.assignee?.id?.toString();
+    if (!userId) continue;
+
+    try {
+      const deadline = new Date(task.deadline).getTime();
+      if (deadline <= now.getTime()) {
+        if (await claimReminder(task, userId, 'overdue', 0)) {
+          await sendReminder(task, userId, 'overdue', now);
+        }
+        continue;
+      }
+
+      // Наступившие напоминания. Если их несколько (сервер был выключен),
+      // помечаем все, а отправляем только самое близкое к дедлайну
+      const minutesLeft = (deadline - now.getTime()) / MINUTE;
+      const due = (offsetsByUser.get(userId) ?? config.DEFAULT_REMINDER_OFFSETS)
+        .filter((offset) => offset >= minutesLeft)
+        .sort((a, b) => a - b);
+      if (due.length === 0) continue;
+
+      const claimed = await Promise.all(
+        due.map((offset) => claimReminder(task, userId, 'reminder', offset)),
+      );
+      if (claimed[0]) {
+        await sendReminder(task, userId, 'reminder', now);
+      }
+    } catch (error: any) {
+      console.error(`Reminders: Failed to process task ${task._id}:`, error.message);
+    }
+  }
+};
+
+export const startReminderScheduler = () => {
+  if (timer) return;
+  const intervalMs = config.REMINDER_CHECK_INTERVAL_SECONDS * 1000;
+
+  const tick = async () => {
+    // Не запускаем новый проход, пока не закончился предыдущий
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runReminderCheck();
+    } catch (error: any) {
+      console.error('Reminders: Check failed:', error.message || error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  timer = setInterval(tick, intervalMs);
+  tick();
+  console.log(`⏰ Reminder scheduler started (every ${config.REMINDER_CHECK_INTERVAL_SECONDS}s)`);
+};
+
+export const stopReminderScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,150 @@
+// src/services/taskAccess.service.ts
+import { Request, Response } from 'express';
+import { Types, FilterQuery } from 'mongoose';
+import { Board } from '../models/board.model';
+import { Task } from '../models/task.model';
+import { ITask } from '../types/taskTypes';
+import { BoardRole } from '../types/boardTypes';
+import { getMemberRole, hasRequiredRole, getAccessibleBoardIds } from './boards.service';
+import { HttpError } from '../middleware/errorHandler';
+
+// Какие задачи показывать в списке: назначенные мне, созданные мной или все доступные
+export type TaskScope = 'all' | 'owned' | 'assigned';
+
+export const TASK_SCOPES: TaskScope[] = ['all', 'owned', 'assigned'];
+
+// Поля, которые исполнитель может менять без прав участника доски
+export const ASSIGNEE_EDITABLE_FIELDS = ['status', 'description'];
+
+// Поля, которые меняются через PUT /api/tasks/:id. Доска, владелец, версия, архив, корзина,
+// позиция, чек-лист, вложения и календарь меняются только своими операциями
+export const UPDATABLE_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'estimate',
+  'deadline',
+  'assignee',
+  'labels',
+  'recurrence',
+  'parent',
+];
+
+// Обновление из тела запроса: только поля allowed, остальные отбрасываются. Операторы — 400
+export const pickTaskUpdates = (
+  body: unknown,
+  allowed: string[] = UPDATABLE_TASK_FIELDS,
+): Record<string, any> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Task updates must be an object');
+  }
+  const operators = Object.keys(body).filter((key) => key.startsWith('$'));
+  if (operators.length > 0) {
+    throw new HttpError(400, `Update operators are not allowed: ${operators.join(', ')}`);
+  }
+  const updates: Record<string, any> = {};
+  for (const field of allowed) {
+    if (field in body) updates[field] = (body as Record<string, any>)[field];
+  }
+  return updates;
+};
+
+export interface TaskAccess {
+  role: BoardRole | null; // Роль на доске задачи (null — не участник)
+  isOwner: boolean;
+  isAssignee: boolean;
+  canView: boolean;
+  canEdit: boolean; // Может менять хотя бы часть полей
+  canEditAllFields: boolean; // false — только ASSIGNEE_EDITABLE_FIELDS
+  canReassign: boolean;
+  canDelete: boolean;
+}
+
+// Определяет права пользователя на задачу по членству в доске, авторству и назначению
+export const resolveTaskAccess = async (task: ITask, userId: string): Promise<TaskAccess> => {
+  const isOwner = task.owner?.toString() === userId;
+  const isAssignee = task.assignee?.id?.toString() === userId;
+  let role: BoardRole | null = null;
+
+  if (task.board) {
+    const board = await Board.findById(task.board);
+    role = board ? getMemberRole(board, userId) : null;
+  } else if (isOwner) {
+    // Старые задачи без доски: доступ только у владельца
+    role = 'owner';
+  }
+
+  const isBoardEditor = hasRequiredRole(role, 'member');
+  const isBoardAdmin = hasRequiredRole(role, 'admin');
+
+  return {
+    role,
+    isOwner,
+    isAssignee,
+    canView: role !== null || isAssignee,
+    canEdit: isBoardEditor || isAssignee,
+    canEditAllFields: isBoardEditor,
+    // Переназначение и удаление — за автором задачи (и админами доски)
+    canReassign: isBoardAdmin || (isOwner && isBoardEditor),
+    canDelete: isBoardAdmin || (isOwner && isBoardEditor),
+  };
+};
+
+/**
+ * Задача :id (или taskId) и права пользователя на нее — для вложенных ресурсов задачи
+ * (комментарии, чек-лист, зависимости, вложения, архив). Отвечает 400/404 сам и возвращает null
+ */
+export const loadVisibleTask = async (
+  req: Request & { userId?: string },
+  res: Response,
+  taskId: string = req.params.id,
+): Promise<{ task: ITask; access: TaskAccess } | null> => {
+  if (!Types.ObjectId.isValid(taskId)) {
+    res.status(400).json({ message: 'Invalid Task ID' });
+    return null;
+  }
+  const task = await Task.findById(taskId);
+  const access = task ? await resolveTaskAccess(task, req.userId!) : null;
+  if (!task || !access?.canView) {
+    res.status(404).json({ message: 'Task not found' });
+    return null;
+  }
+  return { task, access };
+};
+
+// Поля из обновления, которые пользователь менять не вправе
+export const getForbiddenUpdateFields = (
+  access: TaskAccess,
+  updates: Record<string, any>,
+): string[] => {
+  const fields = Object.keys(updates);
+  const forbidden = access.canEditAllFields
+    ? []
+    : fields.filter((field) => !ASSIGNEE_EDITABLE_FIELDS.includes(field));
+  if ('assignee' in updates && !access.canReassign && !forbidden.includes('assignee')) {
+    forbidden.push('assignee');
+  }
+  return forbidden;
+};
+
+// Фильтр для задач, которые пользователь может видеть
+export const buildVisibleTasksFilter = async (
+  userId: string,
+  scope: TaskScope = 'all',
+): Promise<FilterQuery<ITask>> => {
+  const userObjectId = new Types.ObjectId(userId);
+  const assignedFilter = { 'assignee.id': userObjectId };
+  if (scope === 'assigned') {
+    return assignedFilter;
+  }
+
+  const boardIds = await getAccessibleBoardIds(userId);
+  const memberFilter: FilterQuery<ITask> = {
+    $or: [{ board: { $in: boardIds } }, { board: { $exists: false }, owner: userObjectId }],
+  };
+  if (scope === 'owned') {
+    return { $and: [memberFilter, { owner: userObjectId }] };
+  }
+  return { $or: [...memberFilter.$or!, assignedFilter] };
+};
@@ -0,0 +1,174 @@
+// src/services/taskDependency.service.ts
+import { Types, FilterQuery } from 'mongoose';
+import { Task } from '../models/task.model';
+import { ITask } from '../types/taskTypes';
+import { getTaskWorkflow, getFinalStatuses, buildDoneChecker } from './workflow.service';
+import { HttpError } from '../middleware/errorHandler';
+
+// Сколько уровней цепочки обходим в проверке циклов и в графе
+export const MAX_DEPENDENCY_DEPTH = 50;
+export const MAX_BLOCKERS = 50;
+
+export interface DependencyNode {
+  id: string;
+  title: string;
+  status: string;
+  board?: string;
+  isDone: boolean;
+  depth: number; // Расстояние от исходной задачи
+}
+
+// Ребро from → to: задача from блокирует задачу to
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+export interface DependencyGraph {
+  task: DependencyNode;
+  upstream: DependencyNode[]; // Блокирующие задачи (прямые и транзитивные)
+  downstream: DependencyNode[]; // Задачи, которые ждут эту
+  edges: DependencyEdge[];
+}
+
+/**
+ * Проверяет, можно ли добавить связь «blocker блокирует task»:
+ * не сама на себя, без дубля и без цикла. Бросает HttpError.
+ */
+export const assertCanAddDependency = async (task: ITask, blocker: ITask) => {
+  const taskId = String(task._id);
+  const blockerId = String(blocker._id);
+  if (taskId === blockerId) {
+    throw new HttpError(422, 'A task cannot block itself', { code: 'DEPENDENCY_CYCLE' });
+  }
+  if (task.blockedBy.some((id) => id.toString() === blockerId)) {
+    throw new HttpError(409, 'Dependency already exists', { code: 'DEPENDENCY_EXISTS' });
+  }
+  if (task.blockedBy.length >= MAX_BLOCKERS) {
+    throw new HttpError(422, `A task cannot have more than ${MAX_BLOCKERS} blockers`);
+  }
+
+  // Цикл появится, если task уже (транзитивно) блокирует blocker
+  const visited = new Set<string>([blockerId]);
+  let frontier = blocker.blockedBy.map((id) => id.toString());
+  for (let depth = 0; frontier.length > 0 && depth < MAX_DEPENDENCY_DEPTH; depth++) {
+    if (frontier.includes(taskId)) {
+      throw new HttpError(422, 'This dependency would create a cycle', {
+        code: 'DEPENDENCY_CYCLE',
+      });
+    }
+    frontier.forEach((id) => visited.add(id));
+    const parents = await Task.find({ _id: { $in: frontier } }).select('blockedBy');
+    frontier = [...new Set(parents.flatMap((t) => t.blockedBy.map((id) => id.toString())))].filter(
+      (id) => !visited.has(id),
+    );
+  }
+};
+
+/**
+ * Перед переводом в финальный статус все блокирующие задачи должны быть выполнены.
+ * force пропускает проверку. Бросает HttpError 409 со списком открытых блокеров.
+ */
+export const assertBlockersResolved = async (task: ITask, toStatus: string, force = false) => {
+  if (force || task.blockedBy.length === 0 || task.status === toStatus) return;
+  const finalStatuses = getFinalStatuses(await getTaskWorkflow(task));
+  if (!finalStatuses.includes(toStatus)) return;
+
+  const blockers = await Task.find({ _id: { $in: task.blockedBy } });
+  const isDone = await buildDoneChecker(blockers);
+  const openBlockers = blockers.filter((blocker) => !isDone(blocker));
+  if (openBlockers.length > 0) {
+    throw new HttpError(409, 'Task is blocked by open tasks', {
+      code: 'BLOCKED_BY_OPEN_TASKS',
+      blockers: openBlockers.map((blocker) => ({
+        id: blocker.id,
+        title: blocker.title,
+        status: blocker.status,
+      })),
+    });
+  }
+};
+
+// Убирает удаленную задачу из blockedBy остальных и возвращает их обновленными (перечитанными:
+// updateMany повышает version)
+export const detachDependents = async (taskId: string): Promise<ITask[]> => {
+  const taskObjectId = new Types.ObjectId(taskId);
+  const dependents = await Task.find({ blockedBy: taskObjectId }).select('_id');
+  if (dependents.length === 0) return [];
+  await Task.updateMany({ blockedBy: taskObjectId }, { $pull: { blockedBy: taskObjectId } });
+  return Task.find({ _id: { $in: dependents.map((dependent) => dependent._id) } });
+};
+
+/**
+ * Цепочка зависимостей задачи в обе стороны. В граф попадают только задачи,
+ * подходящие под visibleFilter: через невидимые задачи обход не идет.
+ */
+export const getDependencyGraph = async (
+  task: ITask,
+  visibleFilter: FilterQuery<ITask>,
+  maxDepth = MAX_DEPENDENCY_DEPTH,
+): Promise<DependencyGraph> => {
+  const rootId = String(task._id);
+  const found = new Map<string, { task: ITask; depth: number }>();
+  const edges = new Map<string, DependencyEdge>();
+  const addEdge = (from: string, to: string) => edges.set(`${from}>${to}`, { from, to });
+
+  const walk = async (direction: 'upstream' | 'downstream') => {
+    const visited = new Set<string>([rootId]);
+    let frontier: ITask[] = [task];
+    const result: string[] = [];
+    for (let depth = 1; frontier.length > 0 && depth <= maxDepth; depth++) {
+      const ids = frontier.map((t) => t._id as Types.ObjectId);
+      const query =
+        direction === 'upstream'
+          ? { _id: { $in: frontier.flatMap((t) => t.blockedBy) } }
+          : { blockedBy: { $in: ids } };
+      const next = await Task.find({ $and: [query, visibleFilter] });
+
+      const frontierIds = new Set(ids.map((id) => id.toString()));
+      for (const other of next) {
+        const otherId = String(other._id);
+        // Ребра между соседними уровнями
+        if (direction === 'upstream') {
+          frontier
+            .filter((t) => t.blockedBy.some((id) => id.toString() === otherId))
+            .forEach((t) => addEdge(otherId, String(t._id)));
+        } else {
+          other.blockedBy
+            .map((id) => id.toString())
+            .filter((id) => frontierIds.has(id))
+            .forEach((id) => addEdge(id, otherId));
+        }
+        if (!found.has(otherId)) found.set(otherId, { task: other, depth });
+      }
+      frontier = next.filter((other) => !visited.has(String(other._id)));
+      frontier.forEach((other) => {
+        visited.add(String(other._id));
+        result.push(String(other._id));
+      });
+    }
+    return result;
+  };
+
+  const upstreamIds = await walk('upstream');
+  const downstreamIds = await walk('downstream');
+
+  const allTasks = [task, ...Array.from(found.values()).map((entry) => entry.task)];
+  const isDone = await buildDoneChecker(allTasks);
+  const toNode = (t: ITask, depth: number): DependencyNode => ({
+    id: String(t._id),
+    title: t.title,
+    status: t.status,
+    board: t.board?.toString(),
+    isDone: isDone(t),
+    depth,
+  });
+  const nodeById = (id: string) => toNode(found.get(id)!.task, found.get(id)!.depth);
+
+  return {
+    task: toNode(task, 0),
+    upstream: upstreamIds.map(nodeById),
+    downstream: downstreamIds.map(nodeById),
+    edges: Array.from(edges.values()),
+  };
+};
@@ -0,0 +1,227 @@
+// src/services/taskQuery.service.ts
+import { Types, FilterQuery, SortOrder } from 'mongoose';
+import { ITask, TASK_PRIORITIES, ESTIMATE_UNITS, TaskPriority } from '../types/taskTypes';
+import { HttpError } from '../middleware/errorHandler';
+
+// Поля, по которым можно сортировать список задач
+export const TASK_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'deadline',
+  'title',
+  'status',
+  'priority',
+  'estimate',
+  'rank',
+] as const;
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+
+const DATE_SORT_FIELDS: TaskSortField[] = ['createdAt', 'updatedAt', 'deadline'];
+// По умолчанию сначала новые и самые срочные
+const DESC_SORT_FIELDS: TaskSortField[] = ['createdAt', 'updatedAt', 'priority'];
+
+// Поле документа, по которому реально идет сортировка
+const SORT_PATHS: Partial<Record<TaskSortField, string>> = {
+  priority: 'priorityRank',
+  estimate: 'estimate.value',
+};
+const getSortPath = (sortField: TaskSortField) => SORT_PATHS[sortField] ?? sortField;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export interface TaskListQuery {
+  filter: FilterQuery<ITask>; // Фильтры без учета курсора (для total)
+  cursorFilter: FilterQuery<ITask> | null; // Условие "после курсора"
+  sort: Record<string, SortOrder>;
+  sortField: TaskSortField;
+  limit: number;
+}
+
+// Курсор хранит значение поля сортировки и _id последней задачи страницы
+interface TaskCursor {
+  v: string | number | null;
+  id: string;
+}
+
+export const encodeCursor = (task: ITask, sortField: TaskSortField): string => {
+  const value = task.get(getSortPath(sortField));
+  const cursor: TaskCursor = {
+    v: value instanceof Date ? value.toISOString() : (value ?? null),
+    id: String(task._id),
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (raw: string): TaskCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!cursor || !Types.ObjectId.isValid(cursor.id)) return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Разбирает query-параметры GET /api/tasks:
+ * status, label и priority (через запятую), assignee (id или "me"), deadlineFrom/deadlineTo,
+ * estimateMin/estimateMax/estimateUnit, isHidden (true|false|all, по умолчанию false — без архива),
+ * q (поиск по подстроке), sort (rank — ручной порядок карточек в колонках),
+ * order (asc|desc), limit, cursor.
+ * Бросает HttpError 400, если параметр некорректен.
+ */
+export const parseTaskListQuery = (
+  query: Record<string, any>,
+  baseFilter: FilterQuery<ITask>,
+  userId: string,
+): TaskListQuery => {
+  const conditions: FilterQuery<ITask>[] = [];
+
+  if (query.status) {
+    const statuses = String(query.status)
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    conditions.push({ status: statuses.length === 1 ? statuses[0] : { $in: statuses } });
+  }
+
+  if (query.assignee) {
+    const assigneeId = query.assignee === 'me' ? userId : String(query.assignee);
+    if (!Types.ObjectId.isValid(assigneeId)) {
+      throw new HttpError(400, 'Invalid assignee ID');
+    }
+    conditions.push({ 'assignee.id': new Types.ObjectId(assigneeId) });
+  }
+
+  // Задачи хотя бы с одной из перечисленных меток
+  if (query.label) {
+    const labelIds = String(query.label)
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (!labelIds.every((id) => Types.ObjectId.isValid(id))) {
+      throw new HttpError(400, 'Invalid label ID');
+    }
+    conditions.push({ labels: { $in: labelIds.map((id) => new Types.ObjectId(id)) } });
+  }
+
+  if (query.priority) {
+    const priorities = String(query.priority)
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (!priorities.every((p) => TASK_PRIORITIES.includes(p as TaskPriority))) {
+      throw new HttpError(400, `Priority must be one of: ${TASK_PRIORITIES.join(', ')}`);
+    }
+    conditions.push({ priority: { $in: priorities } });
+  }
+
+  if (query.estimateUnit !== undefined) {
+    if (!ESTIMATE_UNITS.includes(query.estimateUnit)) {
+      throw new HttpError(400, `estimateUnit must be one of: ${ESTIMATE_UNITS.join(', ')}`);
+    }
+    conditions.push({ 'estimate.unit': query.estimateUnit });
+  }
+
+  if (query.estimateMin !== undefined || query.estimateMax !== undefined) {
+    const min = query.estimateMin !== undefined ? Number(query.estimateMin) : null;
+    const max = query.estimateMax !== undefined ? Number(query.estimateMax) : null;
+    if ((min !== null && isNaN(min)) || (max !== null && isNaN(max))) {
+      throw new HttpError(400, 'Invalid estimate range');
+    }
+    const range: Record<string, number> = {};
+    if (min !== null) range.$gte = min;
+    if (max !== null) range.$lte = max;
+    conditions.push({ 'estimate.value': range });
+  }
+
+  if (query.deadlineFrom || query.deadlineTo) {
+    const from = parseDate(query.deadlineFrom);
+    const to = parseDate(query.deadlineTo);
+    if ((query.deadlineFrom && !from) || (query.deadlineTo && !to)) {
+      throw new HttpError(400, 'Invalid deadline range');
+    }
+    const range: Record<string, Date> = {};
+    if (from) range.$gte = from;
+    if (to) range.$lte = to;
+    conditions.push({ deadline: range });
+  }
+
+  // Архивные задачи по умолчанию скрыты: isHidden=true — архив, isHidden=all — все вместе
+  const isHidden = query.isHidden ?? 'false';
+  if (!['true', 'false', 'all'].includes(isHidden)) {
+    throw new HttpError(400, 'isHidden must be true, false or all');
+  }
+  if (isHidden !== 'all') {
+    conditions.push({ isHidden: isHidden === 'true' ? true : { $ne: true } });
+  }
+
+  if (query.q) {
+    const pattern = new RegExp(escapeRegex(String(query.q).trim()), 'i');
+    conditions.push({ $or: [{ title: pattern }, { description: pattern }] });
+  }
+
+  const sortField = (query.sort || 'createdAt') as TaskSortField;
+  if (!TASK_SORT_FIELDS.includes(sortField)) {
+    throw new HttpError(400, `Sort must be one of: ${TASK_SORT_FIELDS.join(', ')}`);
+  }
+  const order = query.order || (DESC_SORT_FIELDS.includes(sortField) ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new HttpError(400, 'Order must be asc or desc');
+  }
+  const direction = order === 'asc' ? 1 : -1;
+
+  const limit = query.limit ? Number(query.limit) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, 'Limit must be a positive integer');
+  }
+
+  // _id как второй ключ сортировки делает порядок однозначным для курсора
+  const sortPath = getSortPath(sortField);
+  const sort: Record<string, SortOrder> = { [sortPath]: direction, _id: direction };
+
+  let cursorFilter: FilterQuery<ITask> | null = null;
+  if (query.cursor) {
+    const cursor = decodeCursor(String(query.cursor));
+    if (!cursor) {
+      throw new HttpError(400, 'Invalid cursor');
+    }
+    const op = direction === 1 ? '$gt' : '$lt';
+    const value =
+      DATE_SORT_FIELDS.includes(sortField) && cursor.v !== null ? new Date(cursor.v) : cursor.v;
+    const cursorId = new Types.ObjectId(cursor.id);
+    // Пустые значения (например, без оценки) MongoDB ставит раньше любых чисел
+    if (value === null) {
+      cursorFilter =
+        direction === 1
+          ? { $or: [{ [sortPath]: null, _id: { $gt: cursorId } }, { [sortPath]: { $ne: null } }] }
+          : { [sortPath]: null, _id: { $lt: cursorId } };
+    } else {
+      const after: FilterQuery<ITask>[] = [
+        { [sortPath]: { [op]: value } },
+        { [sortPath]: value, _id: { [op]: cursorId } },
+      ];
+      if (direction === -1) after.push({ [sortPath]: null });
+      cursorFilter = { $or: after };
+    }
+  }
+
+  const filter = conditions.length > 0 ? { $and: [baseFilter, ...conditions] } : baseFilter;
+
+  return {
+    filter,
+    cursorFilter,
+    sort,
+    sortField,
+    limit: Math.min(limit, MAX_LIMIT),
+  };
+};
@@ -0,0 +1,229 @@
+// src/services/taskRank.service.ts
+import mongoose, { Types } from 'mongoose';
+import { Task } from '../models/task.model';
+import { HttpError } from '../middleware/errorHandler';
+import { broadcastTaskUpdate } from './websocket.service';
+
+// Ранг — дробь base62 без "0." впереди; строки сравниваются посимвольно, как в MongoDB
+const RANK_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const BASE = RANK_DIGITS.length;
+// Ранг длиннее — колонке раздаются новые ранги
+const MAX_RANK_LENGTH = 24;
+
+// Строка строго между lower и upper (null — конец диапазона). Ранги не оканчиваются на "0"
+const midpoint = (lower: string, upper: string | null): string => {
+  if (upper !== null) {
+    let common = 0;
+    while ((lower[common] ?? '0') === upper[common]) common++;
+    if (common > 0) {
+      return upper.slice(0, common) + midpoint(lower.slice(common), upper.slice(common));
+    }
+  }
+  const low = lower ? RANK_DIGITS.indexOf(lower[0]) : 0;
+  const high = upper !== null ? RANK_DIGITS.indexOf(upper[0]) : BASE;
+  if (high - low > 1) return RANK_DIGITS[Math.round((low + high) / 2)];
+  // Соседние цифры: хватает первой цифры upper или нужен следующий разряд
+  if (upper !== null && upper.length > 1) return upper[0];
+  return RANK_DIGITS[low] + midpoint(lower.slice(1), null);
+};
+
+// Ранг после last: увеличивается первый разряд, который можно увеличить, хвост отбрасывается.
+// Делением пополам к концу диапазона ранг рос бы на разряд каждые несколько добавлений
+const rankAfter = (last: string): string => {
+  for (let i = 0; i < last.length; i++) {
+    const digit = RANK_DIGITS.indexOf(last[i]);
+    if (digit < BASE - 1) return last.slice(0, i) + RANK_DIGITS[digit + 1];
+  }
+  return last + RANK_DIGITS[1];
+};
+
+// Ранг перед first, симметрично rankAfter; "1" превращается в "0z", чтобы не оканчиваться на "0"
+const rankBefore = (first: string): string => {
+  for (let i = 0; i < first.length; i++) {
+    const digit = RANK_DIGITS.indexOf(first[i]);
+    if (digit > 1) return first.slice(0, i) + RANK_DIGITS[digit - 1];
+    if (digit === 1) return first.slice(0, i) + RANK_DIGITS[0] + RANK_DIGITS[BASE - 1];
+  }
+  throw new Error(`Invalid rank "${first}"`);
+};
+
+// Ранг между двумя соседями; null — начало или конец колонки
+export const rankBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank "${before}" must be lower than "${after}"`);
+  }
+  if (before !== null && after === null) return rankAfter(before);
+  if (before === null && after !== null) return rankBefore(after);
+  return midpoint(before ?? '', after);
+};
+
+// count рангов с равными промежутками по всему диапазону
+const spreadRanks = (count: number): string[] => {
+  let width = 1;
+  while (BASE ** width < (count + 1) * BASE) width++;
+  const step = BASE ** width / (count + 1);
+  return Array.from({ length: count }, (_, index) => {
+    let value = Math.floor(step * (index + 1));
+    let rank = '';
+    for (let digit = 0; digit < width; digit++) {
+      rank = RANK_DIGITS[value % BASE] + rank;
+      value = Math.floor(value / BASE);
+    }
+    return rank.replace(/0+$/, '');
+  });
+};
+
+// Упорядоченная колонка для раздачи рангов
+type ColumnEntry = { _id: unknown; rank?: string };
+
+// Раздает колонке новые ранги в порядке ordered; ранг задачи taskId сохраняет вызывающий
+const rebalanceColumn = async (
+  boardId: Types.ObjectId | undefined,
+  status: string,
+  ordered: ColumnEntry[],
+  taskId: Types.ObjectId,
+): Promise<{ ranks: string[]; rebalancedIds: Types.ObjectId[] }> => {
+  const ranks = spreadRanks(ordered.length);
+  const changed = ordered
+    .map((entry, i) => ({ id: entry._id as Types.ObjectId, from: entry.rank, rank: ranks[i] }))
+    .filter((entry) => !entry.id.equals(taskId) && entry.from !== entry.rank);
+  if (changed.length > 0) {
+    await Task.bulkWrite(
+      changed.map((entry) => ({
+        updateOne: { filter: { _id: entry.id }, update: { $set: { rank: entry.rank } } },
+      })),
+    );
+  }
+  console.log(
+    `Rebalanced ranks of column "${status}" on board ${boardId} (${ordered.length} tasks)`,
+  );
+  return { ranks, rebalancedIds: changed.map((entry) => entry.id) };
+};
+
+/**
+ * Ранг для карточки в конце колонки (новая задача или смена статуса без указания места).
+ * Если ранг вырос до MAX_RANK_LENGTH, ранги колонки раздаются заново,
+ * а соседям с новыми рангами сразу рассылается обновление.
+ */
+export const getColumnEndRank = async (
+  boardId: Types.ObjectId | undefined,
+  status: string,
+  excludeTaskId?: Types.ObjectId,
+): Promise<string> => {
+  const filter: Record<string, any> = { board: boardId, status, rank: { $exists: true } };
+  if (excludeTaskId) filter._id = { $ne: excludeTaskId };
+  const last = await Task.findOne(filter).select('rank').sort({ rank: -1 });
+  const rank = rankBetween(last?.rank ?? null, null);
+  if (rank.length <= MAX_RANK_LENGTH) return rank;
+
+  // Архивные задачи тоже получают ранги: иначе их длинные ранги так и останутся последними
+  const columnFilter: Record<string, any> = { board: boardId, status };
+  if (excludeTaskId) columnFilter._id = { $ne: excludeTaskId };
+  const column = await Task.find(columnFilter).select('rank').sort({ rank: 1, _id: 1 }).lean();
+  const taskId = excludeTaskId ?? new Types.ObjectId();
+  const { ranks, rebalancedIds } = await rebalanceColumn(
+    boardId,
+    status,
+    [...column, { _id: taskId }],
+    taskId,
+  );
+  if (rebalancedIds.length > 0) {
+    const rebalanced = await Task.find({ _id: { $in: rebalancedIds } });
+    rebalanced.forEach((neighbour) => broadcastTaskUpdate(neighbour));
+  }
+  return ranks[column.length];
+};
+
+// Место в колонке: сразу после afterTaskId или сразу перед beforeTaskId, иначе в конце
+export interface ColumnPosition {
+  afterTaskId?: string;
+  beforeTaskId?: string;
+}
+
+export interface ColumnPlacement {
+  rank: string;
+  rebalancedIds: Types.ObjectId[]; // Задачи колонки, которым пришлось сменить ранг
+}
+
+/**
+ * Вычисляет ранг задачи на новом месте колонки. Соседи берутся из базы,
+ * а не от клиента, поэтому устаревший вид доски не ломает порядок.
+ * Если между соседями места нет, ранги всей колонки раздаются заново.
+ * Бросает HttpError, если опорная задача не из этой колонки.
+ */
+export const placeTaskInColumn = async (
+  boardId: Types.ObjectId,
+  status: string,
+  taskId: Types.ObjectId,
+  position: ColumnPosition,
+): Promise<ColumnPlacement> => {
+  const anchorId = position.afterTaskId ?? position.beforeTaskId;
+  if (anchorId !== undefined) {
+    if (typeof anchorId !== 'string' || !mongoose.Types.ObjectId.isValid(anchorId)) {
+      throw new HttpError(400, 'Invalid anchor task ID');
+    }
+    if (anchorId === String(taskId)) {
+      throw new HttpError(422, 'A task cannot be placed next to itself', {
+        code: 'INVALID_MOVE_ANCHOR',
+      });
+    }
+  }
+
+  // Порядок колонки: по рангу, при равных — по _id (так же сортирует GET /api/tasks?sort=rank)
+  const column = await Task.find({
+    board: boardId,
+    status,
+    isHidden: { $ne: true },
+    _id: { $ne: taskId },
+  })
+    .select('rank')
+    .sort({ rank: 1, _id: 1 })
+    .lean();
+
+  let index = column.length;
+  if (anchorId !== undefined) {
+    const anchorIndex = column.findIndex((entry) => String(entry._id) === anchorId);
+    if (anchorIndex === -1) {
+      throw new HttpError(422, 'Anchor task is not in the target column', {
+        code: 'INVALID_MOVE_ANCHOR',
+        status,
+      });
+    }
+    index = position.afterTaskId !== undefined ? anchorIndex + 1 : anchorIndex;
+  }
+
+  const before = index > 0 ? (column[index - 1].rank ?? null) : null;
+  const after = index < column.length ? (column[index].rank ?? null) : null;
+  const hasRoom =
+    (index === 0 || before !== null) &&
+    (index === column.length || after !== null) &&
+    (before === null || after === null || before < after);
+  if (hasRoom) {
+    const rank = rankBetween(before, after);
+    if (rank.length <= MAX_RANK_LENGTH) return { rank, rebalancedIds: [] };
+  }
+
+  // Места нет (равные ранги, задачи без ранга, слишком длинный ранг): перераздаем колонку
+  const ordered: ColumnEntry[] = [
+    ...column.slice(0, index),
+    { _id: taskId },
+    ...column.slice(index),
+  ];
+  const { ranks, rebalancedIds } = await rebalanceColumn(boardId, status, ordered, taskId);
+  return { rank: ranks[index], rebalancedIds };
+};
+
+// Очереди перемещений по доскам: перемещения одной доски применяются строго по очереди,
+// иначе два одновременных переноса в один промежуток получат один и тот же ранг
+const boardQueues = new Map<string, Promise<unknown>>();
+
+export const runInBoardQueue = <T>(boardId: string, job: () => Promise<T>): Promise<T> => {
+  const previous = boardQueues.get(boardId) ?? Promise.resolve();
+  const result = previous.then(job);
+  const tail = result.catch(() => undefined);
+  boardQueues.set(boardId, tail);
+  tail.then(() => {
+    if (boardQueues.get(boardId) === tail) boardQueues.delete(boardId);
+  });
+  return result;
+};
@@ -0,0 +1,85 @@
+// src/services/taskSearch.service.ts
+import { FilterQuery } from 'mongoose';
+import { Task } from '../models/task.model';
+import { ITask } from '../types/taskTypes';
+
+const SNIPPET_RADIUS = 40; // Символов контекста по обе стороны от совпадения
+
+export interface SearchHighlight {
+  field: 'title' | 'description';
+  snippet: string;
+  matches: Array<[number, number]>; // [начало, конец) совпадений внутри snippet
+}
+
+export interface TaskSearchResult {
+  task: ITask;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+// Слова запроса без кавычек и минусов ($text понимает фразы и исключения)
+const extractTerms = (query: string): string[] =>
+  query
+    .split(/\s+/)
+    .map((term) => term.replace(/^-/, '').replace(/"/g, '').trim().toLowerCase())
+    .filter((term) => term.length > 0);
+
+const buildHighlight = (
+  field: SearchHighlight['field'],
+  text: string | undefined,
+  terms: string[],
+): SearchHighlight | null => {
+  if (!text) return null;
+  const lower = text.toLowerCase();
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+  if (ranges.length === 0) return null;
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  // Фрагмент вокруг первого совпадения, заголовок показываем целиком
+  const start = field === 'title' ? 0 : Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const end =
+    field === 'title' ? text.length : Math.min(text.length, ranges[0][1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  const matches = ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .map(([from, to]): [number, number] => [
+      from - start + prefix.length,
+      to - start + prefix.length,
+    ]);
+
+  return { field, snippet: `${prefix}${text.slice(start, end)}${suffix}`, matches };
+};
+
+// Полнотекстовый поиск по title/description среди задач, подходящих под visibleFilter
+export const searchTasks = async (
+  query: string,
+  visibleFilter: FilterQuery<ITask>,
+  limit: number,
+): Promise<TaskSearchResult[]> => {
+  const tasks = await Task.find(
+    { ...visibleFilter, $text: { $search: query } },
+    { score: { $meta: 'textScore' } },
+  )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit);
+
+  const terms = extractTerms(query);
+  return tasks.map((task) => ({
+    task,
+    score: task.get('score') ?? 0,
+    highlights: [
+      buildHighlight('title', task.title, terms),
+      buildHighlight('description', task.description, terms),
+    ].filter((h): h is SearchHighlight => h !== null),
+  }));
+};
@@ -1,5 +1,36 @@
+import mongoose, { Types, FilterQuery } from 'mongoose';
+import config from '../config';
 import { Task } from '../models/task.model';
-import { ITask } from '../types/taskTypes';
+import { ITask, IRecurrence } from '../types/taskTypes';
+import { resolveTaskAccess } from './taskAccess.service';
+import {
+  getTaskWorkflow,
+  getInitialStatus,
+  buildDoneChecker,
+  assertStatusTransition,
+} from './workflow.service';
+import { getNextDeadline, toRRule } from './recurrence.service';
+import { recordTaskActivity, snapshotTask, diffTaskSnapshots } from './activity.service';
+import { assertBlockersResolved } from './taskDependency.service';
+import {
+  getColumnEndRank,
+  placeTaskInColumn,
+  runInBoardQueue,
+  ColumnPosition,
+} from './taskRank.service';
+import { notifyTaskActivity } from './notification.service';
+import {
+  createCalendarEvent,
+  findCalendarEventInstance,
+  getTaskCalendarLocation,
+  CalendarBatchOperation,
+  CalendarLocation,
+} from './googleCalendar.service';
+import { enqueueCalendarOperations, enqueueTaskCalendarSync } from './calendarOutbox.service';
+import { HttpError } from '../middleware/errorHandler';
+
+// Глубже этого цепочку родителей не проверяем
+const MAX_PARENT_DEPTH = 50;
 
 export const findTaskById = async (id: string): Promise<ITask | null> => {
   return Task.findById(id).lean().exec();
@@ -26,6 +57,349 @@ export const updateTaskById = async (
   }).exec();
 };
 
+// Условие «в базе все та же версия задачи»; у задач, созданных до появления версий, поля нет
+export const taskVersionFilter = (version: number): FilterQuery<ITask> =>
+  version === 0 ? { $or: [{ version: 0 }, { version: { $exists: false } }] } : { version };
+
+// 409 с актуальной копией задачи, чтобы клиент мог слить свои правки
+export const taskVersionConflict = (current: ITask) =>
+  new HttpError(409, 'Task was changed by someone else', {
+    code: 'VERSION_CONFLICT',
+    currentVersion: current.version,
+    task: current.toJSON(),
+  });
+
+/**
+ * Проверяет предусловие обновления: клиент правил версию expected.
+ * Бросает 428, если версия не передана, и 409, если она устарела.
+ */
+export const assertTaskVersion = (task: ITask, expected: number | null) => {
+  if (expected === null) {
+    throw new HttpError(428, 'Task version is required to update a task', {
+      code: 'PRECONDITION_REQUIRED',
+      currentVersion: task.version,
+    });
+  }
+  if (expected !== task.version) {
+    throw taskVersionConflict(task);
+  }
+};
+
+/**
+ * Сохраняет изменения задачи, только если ее никто не успел поменять
+ * после загрузки. Иначе бросает 409 с актуальной копией.
+ */
+export const saveTaskIfUnchanged = async (task: ITask): Promise<ITask> => {
+  task.$where = taskVersionFilter(task.version);
+  try {
+    return await task.save();
+  } catch (error: any) {
+    if (error.name !== 'DocumentNotFoundError') throw error;
+    const current = await Task.findById(task._id);
+    if (!current) throw new HttpError(404, 'Task not found');
+    throw taskVersionConflict(current);
+  }
+};
+
 export const deleteTaskById = async (id: string): Promise<ITask | null> => {
   return Task.findByIdAndDelete(id).exec();
 };
+
+// Отвязывает подзадачи удаляемой задачи: они становятся обычными задачами.
+// Возвращает их перечитанными — updateMany повышает version
+export const detachSubtasks = async (parentId: string): Promise<ITask[]> => {
+  const children = await Task.find({ parent: parentId }).select('_id');
+  if (children.length === 0) return [];
+  await Task.updateMany({ parent: parentId }, { $unset: { parent: 1 } });
+  return Task.find({ _id: { $in: children.map((child) => child._id) } });
+};
+
+/**
+ * Проверяет родительскую задачу: она видна пользователю, лежит на той же доске
+ * и не является самой задачей или ее потомком. Бросает HttpError.
+ */
+export const resolveParentTask = async (
+  parentId: string,
+  boardId: Types.ObjectId | undefined,
+  userId: string,
+  childId?: string,
+): Promise<ITask> => {
+  if (!mongoose.Types.ObjectId.isValid(parentId)) {
+    throw new HttpError(400, 'Invalid parent task ID');
+  }
+  const parent = await Task.findById(parentId);
+  const access = parent ? await resolveTaskAccess(parent, userId) : null;
+  if (!parent || !access?.canView) {
+    throw new HttpError(404, 'Parent task not found');
+  }
+  if (String(parent.board) !== String(boardId)) {
+    throw new HttpError(422, 'Parent task must be on the same board', {
+      code: 'PARENT_BOARD_MISMATCH',
+    });
+  }
+
+  // Идем вверх по родителям: задача не может стать подзадачей своего потомка
+  if (childId) {
+    let current: ITask | null = parent;
+    for (let depth = 0; current && depth < MAX_PARENT_DEPTH; depth++) {
+      if (String(current._id) === childId) {
+        throw new HttpError(422, 'A task cannot be a subtask of itself or its subtasks', {
+          code: 'PARENT_CYCLE',
+        });
+      }
+      current = current.parent ? await Task.findById(current.parent).select('parent') : null;
+    }
+  }
+  return parent;
+};
+
+/**
+ * Создает событие календаря для задачи (документ не сохраняет).
+ * Для повторяющейся задачи это серия: ее id хранится в правиле,
+ * а в calendarEventId — экземпляр, относящийся к этой задаче.
+ * location — календарь исполнителя; по умолчанию общий.
+ */
+export const createTaskCalendarEvent = async (
+  task: ITask,
+  location: CalendarLocation = {},
+): Promise<void> => {
+  const eventId = await createCalendarEvent(task, location);
+  if (!eventId) return;
+  task.calendarOwner = location.owner ? new Types.ObjectId(location.owner) : undefined;
+  task.calendarId = location.owner ? location.calendarId : undefined;
+  if (task.recurrence) {
+    task.set('recurrence.calendarSeriesId', eventId);
+    task.set('recurrence.calendarSeriesStart', task.recurrence.occurrence);
+    task.calendarEventId =
+      (await findCalendarEventInstance(eventId, task.deadline, location)) ?? undefined;
+  } else {
+    task.calendarEventId = eventId;
+  }
+};
+
+// RRULE серии, оборванной перед экземпляром задачи: правило то же,
+// но вместо COUNT — UNTIL за секунду до дедлайна этой задачи
+const buildTruncatedSeriesRule = (task: ITask, rule: IRecurrence): string =>
+  toRRule(
+    {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      weekdays: rule.weekdays,
+      monthDay: rule.monthDay,
+      occurrence: rule.occurrence,
+      until: new Date(new Date(task.deadline).getTime() - 1000),
+    },
+    rule.calendarSeriesStart,
+  );
+
+// Серия начиналась с экземпляра этой задачи — обрывать нечего, удаляется целиком
+const startsCalendarSeries = (rule: IRecurrence) =>
+  rule.occurrence <= (rule.calendarSeriesStart ?? 1);
+
+// Операции календаря, которые убирают задачу: ее событие и хвост открытой серии
+// (с ее экземпляра; если серия с него и начиналась — вся серия)
+export const planCalendarRemoval = (task: ITask): CalendarBatchOperation[] => {
+  const location = getTaskCalendarLocation(task);
+  const operations: CalendarBatchOperation[] = [];
+  if (task.calendarEventId) {
+    operations.push({ ...location, method: 'DELETE', eventId: task.calendarEventId });
+  }
+  const rule = task.recurrence;
+  if (rule?.calendarSeriesId && !rule.nextTask) {
+    operations.push(
+      startsCalendarSeries(rule)
+        ? { ...location, method: 'DELETE', eventId: rule.calendarSeriesId }
+        : {
+            ...location,
+            method: 'PATCH',
+            eventId: rule.calendarSeriesId,
+            body: { recurrence: [buildTruncatedSeriesRule(task, rule)] },
+          },
+    );
+  }
+  return operations;
+};
+
+/**
+ * Убирает задачи из календаря (корзина, архив, удаление доски): ставит в очередь удаление
+ * их событий, а открытые экземпляры повторяющихся задач еще и обрывают серии.
+ * Снимает с задач ссылки на события, документы не сохраняет.
+ */
+export const removeTasksFromCalendar = async (tasks: ITask[]): Promise<void> => {
+  const operations = detachTasksFromCalendar(tasks);
+  if (operations.length > 0) {
+    console.log(`Removing ${tasks.length} tasks from Google Calendar (${operations.length} ops)`);
+    await enqueueCalendarOperations(operations);
+  }
+};
+
+// Снимает с задач ссылки на события (без сохранения) и возвращает операции удаления событий,
+// не ставя их в очередь: их ставят после того, как задачи сохранены
+export const detachTasksFromCalendar = (tasks: ITask[]): CalendarBatchOperation[] => {
+  const operations = tasks.flatMap(planCalendarRemoval);
+  for (const task of tasks) {
+    if (task.recurrence && !task.recurrence.nextTask) {
+      task.set('recurrence.calendarSeriesId', undefined);
+    }
+    task.calendarEventId = undefined;
+  }
+  return operations;
+};
+
+// То же для одной задачи
+export const removeTaskFromCalendar = (task: ITask): Promise<void> =>
+  removeTasksFromCalendar([task]);
+
+/**
+ * Возвращает задачу в календарь после removeTaskFromCalendar (вызывать после сохранения).
+ * Выполненный экземпляр серии был в прошлом событии серии, для него событие не создается.
+ */
+export const returnTaskToCalendar = async (task: ITask): Promise<void> => {
+  if (task.recurrence?.nextTask) return;
+  await enqueueTaskCalendarSync(task._id as Types.ObjectId);
+};
+
+/**
+ * Выполненная повторяющаяся задача порождает следующий экземпляр с дедлайном
+ * по правилу (в TARGET_TIMEZONE). Повторный перевод в done новых экземпляров не создает.
+ * Ошибки только логируются. Возвращает созданную задачу или null.
+ */
+export const spawnNextRecurrence = async (task: ITask, actorId: string): Promise<ITask | null> => {
+  const rule = task.recurrence;
+  if (!rule || rule.nextTask) return null;
+  const isDone = await buildDoneChecker([task]);
+  if (!isDone(task)) return null;
+  const deadline = getNextDeadline(rule, task.deadline, config.TARGET_TIMEZONE);
+  if (!deadline) return null;
+
+  // Помечаем задачу заранее: два одновременных перевода в done не создадут два экземпляра
+  const nextId = new Types.ObjectId();
+  const claimed = await Task.updateOne(
+    { _id: task._id, 'recurrence.nextTask': { $exists: false } },
+    { $set: { 'recurrence.nextTask': nextId } },
+    { skipVersion: true },
+  );
+  if (claimed.modifiedCount === 0) return null;
+
+  try {
+    const workflow = await getTaskWorkflow(task);
+    const status = getInitialStatus(workflow);
+    const next = new Task({
+      _id: nextId,
+      title: task.title,
+      description: task.description,
+      status,
+      rank: await getColumnEndRank(task.board, status),
+      priority: task.priority,
+      estimate: task.estimate,
+      deadline,
+      owner: task.owner,
+      board: task.board,
+      parent: task.parent,
+      assignee: task.assignee,
+      labels: task.labels,
+      checklist: task.checklist.map((item) => ({
+        _id: new Types.ObjectId(),
+        text: item.text,
+        order: item.order,
+        assignee: item.assignee,
+        done: false,
+      })),
+      recurrence: {
+        frequency: rule.frequency,
+        interval: rule.interval,
+        weekdays: rule.weekdays,
+        monthDay: rule.monthDay,
+        until: rule.until,
+        count: rule.count,
+        occurrence: rule.occurrence + 1,
+        calendarSeriesId: rule.calendarSeriesId,
+        calendarSeriesStart: rule.calendarSeriesStart,
+      },
+      // Серия событий в том же календаре
+      calendarOwner: task.calendarOwner,
+      calendarId: task.calendarId,
+      isHidden: false,
+    });
+
+    await next.save();
+    // Экземпляр уже существующей серии событий, иначе — новая серия (calendarOutbox.service)
+    await enqueueTaskCalendarSync(nextId);
+    task.set('recurrence.nextTask', nextId);
+    console.log(
+      `Recurring task ${task._id}: created occurrence ${rule.occurrence + 1} (${nextId})`,
+    );
+
+    await recordTaskActivity('created', next, actorId);
+    await notifyTaskActivity('created', next, actorId);
+    return next;
+  } catch (error: any) {
+    console.error(`Failed to create next occurrence of task ${task._id}:`, error.message);
+    await Task.updateOne(
+      { _id: task._id },
+      { $unset: { 'recurrence.nextTask': 1 } },
+      { skipVersion: true },
+    );
+    return null;
+  }
+};
+
+export interface TaskMoveInput extends ColumnPosition {
+  status?: string; // Новая колонка; без него — перестановка внутри текущей
+  force?: boolean; // Закрыть задачу, несмотря на открытые блокеры
+}
+
+export interface TaskMoveResult {
+  task: ITask;
+  rebalanced: ITask[]; // Соседи, получившие новые ранги
+  nextOccurrence: ITask | null;
+}
+
+/**
+ * Переносит карточку: статус и позиция в колонке меняются вместе.
+ * Перемещения одной доски выполняются по очереди, поэтому одновременные
+ * перестановки нескольких пользователей дают всем один и тот же порядок.
+ * Бросает HttpError (переход статуса, блокеры, опорная задача).
+ */
+export const moveTask = async (
+  task: ITask,
+  input: TaskMoveInput,
+  actorId: string,
+): Promise<TaskMoveResult> => {
+  if (!task.board) {
+    throw new HttpError(422, 'Only tasks on a board can be moved');
+  }
+  return runInBoardQueue(task.board.toString(), async () => {
+    // Перечитываем задачу: пока ждали очереди, ее могли переместить
+    const current = await Task.findById(task._id);
+    if (!current) {
+      throw new HttpError(404, 'Task not found');
+    }
+    const toStatus = input.status ?? current.status;
+    if (toStatus !== current.status) {
+      await assertStatusTransition(current, toStatus);
+      await assertBlockersResolved(current, toStatus, input.force === true);
+    }
+
+    const placement = await placeTaskInColumn(
+      current.board!,
+      toStatus,
+      current._id as Types.ObjectId,
+      input,
+    );
+    const before = snapshotTask(current);
+    current.set({ status: toStatus, rank: placement.rank });
+    const moved = await current.save();
+
+    const changes = diffTaskSnapshots(before, snapshotTask(moved));
+    await recordTaskActivity('updated', moved, actorId, changes);
+    await notifyTaskActivity('updated', moved, actorId, changes);
+    console.log(`Task ${moved._id} moved to "${toStatus}" at rank ${placement.rank}`);
+
+    const rebalanced = placement.rebalancedIds.length
+      ? await Task.find({ _id: { $in: placement.rebalancedIds } })
+      : [];
+    const nextOccurrence = await spawnNextRecurrence(moved, actorId);
+    return { task: moved, rebalanced, nextOccurrence };
+  });
+};
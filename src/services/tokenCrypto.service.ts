@@ -0,0 +1,40 @@
+// src/services/tokenCrypto.service.ts
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import config from '../config';
+
+// AES-256-GCM: шифрует и проверяет целостность. Формат: v1.<iv>.<tag>.<данные> (base64url)
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+const IV_LENGTH = 12;
+
+const getKey = (): Buffer => {
+  if (!config.CALENDAR_TOKEN_KEY) {
+    throw new Error('CALENDAR_TOKEN_KEY is not configured');
+  }
+  return config.CALENDAR_TOKEN_KEY;
+};
+
+export const isTokenEncryptionConfigured = () => Boolean(config.CALENDAR_TOKEN_KEY);
+
+export const encryptSecret = (plain: string): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), data]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+};
+
+// Бросает ошибку, если данные повреждены или зашифрованы другим ключом
+export const decryptSecret = (payload: string): string => {
+  const [version, iv, tag, data] = payload.split('.');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Unsupported encrypted secret format');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+};
@@ -0,0 +1,144 @@
+// src/services/trash.service.ts
+import { Types } from 'mongoose';
+import config from '../config';
+import { Task } from '../models/task.model';
+import { Board } from '../models/board.model';
+import { Comment } from '../models/comment.model';
+import { ITask } from '../types/taskTypes';
+import { recordTaskActivity } from './activity.service';
+import { removeAttachmentFiles } from './attachmentStorage.service';
+import { detachSubtasks, removeTaskFromCalendar, returnTaskToCalendar } from './tasks.service';
+import { detachDependents } from './taskDependency.service';
+import {
+  getTaskWorkflow,
+  getInitialStatus,
+  findWorkflowStatus,
+  assertWipCapacity,
+} from './workflow.service';
+import { getColumnEndRank } from './taskRank.service';
+import { broadcastTaskUpdate } from './websocket.service';
+import { HttpError } from '../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Корзину проверяем раз в час
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+// Когда задача из корзины будет удалена окончательно
+export const getPurgeDate = (task: ITask): Date | null =>
+  task.deletedAt
+    ? new Date(new Date(task.deletedAt).getTime() + config.TRASH_RETENTION_DAYS * DAY_MS)
+    : null;
+
+/**
+ * Переносит задачу в корзину: событие календаря удаляется. Подзадачи и зависимые задачи
+ * остаются привязанными (чтения корзину не видят) и отвязываются только при очистке,
+ * поэтому восстановление возвращает задачу со всеми связями.
+ */
+export const moveTaskToTrash = async (task: ITask, actorId: string): Promise<void> => {
+  await removeTaskFromCalendar(task);
+  task.set({ deletedAt: new Date(), deletedBy: new Types.ObjectId(actorId) });
+  await task.save();
+  await recordTaskActivity('deleted', task, actorId);
+  console.log(`Task ${task._id} moved to trash by user ${actorId}`);
+};
+
+/**
+ * Возвращает задачу из корзины. Исчезнувший статус заменяется начальным,
+ * карточка встает в конец колонки, событие календаря создается заново.
+ * Бросает HttpError 409, если колонка заполнена по WIP-лимиту или родитель еще в корзине
+ * (иначе подзадача потеряла бы родителя, которого можно восстановить).
+ */
+export const restoreTaskFromTrash = async (task: ITask, actorId: string): Promise<ITask> => {
+  if (task.parent && (await Task.exists({ _id: task.parent, deletedAt: { $ne: null } }))) {
+    throw new HttpError(409, 'Restore the parent task from trash first', {
+      code: 'PARENT_IN_TRASH',
+      parentId: String(task.parent),
+    });
+  }
+
+  const workflow = await getTaskWorkflow(task);
+  const status =
+    findWorkflowStatus(workflow, task.status) ??
+    findWorkflowStatus(workflow, getInitialStatus(workflow))!;
+  await assertWipCapacity(task.board, status, task._id as Types.ObjectId);
+
+  // Связи с задачами и метки, исчезнувшие, пока задача лежала в корзине. Блокеры из корзины
+  // остаются: их отвяжет очистка корзины, а до нее их можно восстановить
+  const [parentExists, blockers, trashedBlockers, board] = await Promise.all([
+    task.parent ? Task.exists({ _id: task.parent }) : null,
+    Task.find({ _id: { $in: task.blockedBy } }).select('_id'),
+    Task.find({ _id: { $in: task.blockedBy }, deletedAt: { $ne: null } }).select('_id'),
+    task.board ? Board.findById(task.board) : null,
+  ]);
+  const boardLabelIds = new Set(board?.labels.map((label) => label._id.toString()) ?? []);
+
+  task.set({
+    status: status.key,
+    rank: await getColumnEndRank(task.board, status.key),
+    parent: parentExists ? task.parent : undefined,
+    blockedBy: [...blockers, ...trashedBlockers].map((blocker) => blocker._id),
+    labels: task.labels.filter((id) => boardLabelIds.has(id.toString())),
+    deletedAt: undefined,
+    deletedBy: undefined,
+  });
+
+  const restored = await task.save();
+  await returnTaskToCalendar(restored);
+  await recordTaskActivity('restored', restored, actorId);
+  console.log(`Task ${restored._id} restored from trash by user ${actorId}`);
+  return restored;
+};
+
+/**
+ * Окончательно удаляет задачи, пролежавшие в корзине дольше срока хранения.
+ * Их подзадачи становятся обычными задачами, зависимые — перестают ими блокироваться.
+ */
+export const purgeExpiredTrash = async (now = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - config.TRASH_RETENTION_DAYS * DAY_MS);
+  const expired = await Task.find({ deletedAt: { $lte: cutoff } }).select('_id attachments');
+  if (expired.length === 0) return 0;
+
+  const ids = expired.map((task) => task._id);
+  for (const id of ids) {
+    const detached = await detachSubtasks(String(id));
+    const unblocked = await detachDependents(String(id));
+    [...detached, ...unblocked].forEach((task) => broadcastTaskUpdate(task));
+  }
+  await Comment.deleteMany({ task: { $in: ids } });
+  const result = await Task.deleteMany({ _id: { $in: ids } });
+  await removeAttachmentFiles(
+    expired.flatMap((task) => task.attachments.map((attachment) => attachment.storageKey)),
+  );
+  console.log(`Trash: Purged ${result.deletedCount} tasks deleted before ${cutoff.toISOString()}`);
+  return result.deletedCount;
+};
+
+export const startTrashRetentionJob = () => {
+  if (timer) return;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await purgeExpiredTrash();
+    } catch (error: any) {
+      console.error('Trash: Purge failed:', error.message || error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  timer = setInterval(tick, PURGE_INTERVAL_MS);
+  tick();
+  console.log(`🗑️ Trash retention job started (keeping tasks ${config.TRASH_RETENTION_DAYS} days)`);
+};
+
+export const stopTrashRetentionJob = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,414 @@
+// src/services/userCalendar.service.ts
+import { randomBytes } from 'node:crypto';
+import { google, calendar_v3 } from 'googleapis';
+import { OAuth2Client, Credentials } from 'google-auth-library';
+import jwt, { JwtPayload, Secret } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import config from '../config';
+import { User, IUser } from '../models/user.model';
+import { Task } from '../models/task.model';
+import { CalendarSyncJob } from '../models/calendarSyncJob.model';
+import { HttpError } from '../middleware/errorHandler';
+import { encryptSecret, decryptSecret, isTokenEncryptionConfigured } from './tokenCrypto.service';
+import {
+  runCalendarBatch,
+  CalendarLocation,
+  CalendarBatchOperation,
+} from './googleCalendar.service';
+import { enqueueTaskCalendarSync } from './calendarOutbox.service';
+import { refreshUserCalendarWatch } from './calendarSync.service';
+
+const CALENDAR_EVENTS_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+// События задач и список календарей для выбора; email — чтобы показать подключенный аккаунт
+const SCOPES = [
+  CALENDAR_EVENTS_SCOPE,
+  'https://www.googleapis.com/auth/calendar.calendarlist.readonly',
+  'openid',
+  'email',
+];
+const PRIMARY_CALENDAR_ID = 'primary';
+// state в OAuth-редиректе: подписанный id пользователя и nonce, живет 10 минут
+const STATE_PURPOSE = 'calendar_connect';
+export const CALENDAR_CONNECT_TTL_SECONDS = 10 * 60;
+// Отдельный секрет: state не должен подходить как access token
+const stateSecret = (): Secret => `${config.JWT_SECRET}:${STATE_PURPOSE}`;
+
+// Клиент API с OAuth-доступом пользователя и его выбранный календарь
+export interface UserCalendarClient {
+  calendar: calendar_v3.Calendar;
+  authClient: OAuth2Client;
+  calendarId: string;
+}
+
+export interface UserCalendarListEntry {
+  id: string;
+  summary: string;
+  primary: boolean;
+  selected: boolean;
+}
+
+// Ответ GET /api/calendar/status (CalendarState.isIntegrated на клиенте)
+export interface CalendarIntegrationStatus {
+  isIntegrated: boolean;
+  available: boolean; // На сервере настроены личные календари
+  calendarId?: string;
+  email?: string;
+  connectedAt?: Date;
+  // Задания очереди по задачам пользователя
+  sync: { pending: number; failed: number };
+}
+
+// Клиенты с расшифрованными токенами, по id пользователя
+const clients = new Map<string, UserCalendarClient>();
+
+export const isUserCalendarEnabled = () =>
+  Boolean(
+    config.GOOGLE_CLIENT_SECRET &&
+    config.GOOGLE_OAUTH_REDIRECT_URI &&
+    isTokenEncryptionConfigured(),
+  );
+
+const assertUserCalendarEnabled = () => {
+  if (!isUserCalendarEnabled()) {
+    throw new HttpError(503, 'Personal Google calendars are not configured on this server');
+  }
+};
+
+const createOAuthClient = () =>
+  new OAuth2Client(
+    config.GOOGLE_CLIENT_ID,
+    config.GOOGLE_CLIENT_SECRET,
+    config.GOOGLE_OAUTH_REDIRECT_URI,
+  );
+
+const saveTokens = async (userId: string, credentials: Credentials) => {
+  await User.updateOne(
+    { _id: userId, googleCalendar: { $exists: true } },
+    { $set: { 'googleCalendar.tokens': encryptSecret(JSON.stringify(credentials)) } },
+  );
+};
+
+/**
+ * Клиент Calendar API от имени пользователя. null — календарь не подключен
+ * или токены не расшифровываются (сменился CALENDAR_TOKEN_KEY).
+ */
+export const getUserCalendarClient = async (userId: string): Promise<UserCalendarClient | null> => {
+  const cached = clients.get(userId);
+  if (cached) return cached;
+  if (!isUserCalendarEnabled()) return null;
+
+  const user = await User.findById(userId).select('googleCalendar');
+  if (!user?.googleCalendar) return null;
+  let credentials: Credentials;
+  try {
+    credentials = JSON.parse(decryptSecret(user.googleCalendar.tokens));
+  } catch (error: any) {
+    console.error(`User calendar: Cannot decrypt tokens of user ${userId}:`, error.message);
+    return null;
+  }
+
+  const authClient = createOAuthClient();
+  authClient.setCredentials(credentials);
+  // Обновленный access token сохраняем; refresh token при обновлении обычно не приходит
+  authClient.on('tokens', (tokens) => {
+    credentials = { ...credentials, ...tokens };
+    saveTokens(userId, credentials).catch((error: any) => {
+      console.error(`User calendar: Failed to save tokens of user ${userId}:`, error.message);
+    });
+  });
+
+  const client: UserCalendarClient = {
+    calendar: google.calendar({ version: 'v3', auth: authClient }),
+    authClient,
+    calendarId: user.googleCalendar.calendarId,
+  };
+  clients.set(userId, client);
+  return client;
+};
+
+// Куда ставить события задач этих исполнителей: есть только у подключивших календарь
+export const getUserCalendarLocations = async (
+  userIds: (Types.ObjectId | string)[],
+): Promise<Map<string, CalendarLocation>> => {
+  const locations = new Map<string, CalendarLocation>();
+  if (!isUserCalendarEnabled() || userIds.length === 0) return locations;
+  const users = await User.find({
+    _id: { $in: userIds },
+    googleCalendar: { $exists: true },
+  }).select('googleCalendar.calendarId');
+  for (const user of users) {
+    locations.set(String(user._id), {
+      owner: String(user._id),
+      calendarId: user.googleCalendar!.calendarId,
+    });
+  }
+  return locations;
+};
+
+// Все подключенные личные календари (каналы уведомлений, сверка)
+export const getConnectedCalendarLocations = async (): Promise<CalendarLocation[]> => {
+  if (!isUserCalendarEnabled()) return [];
+  const users = await User.find({ googleCalendar: { $exists: true } }).select(
+    'googleCalendar.calendarId',
+  );
+  return users.map((user) => ({
+    owner: String(user._id),
+    calendarId: user.googleCalendar!.calendarId,
+  }));
+};
+
+// Каналы уведомлений личного календаря открываются в фоне: первая синхронизация бывает долгой
+const watchUserCalendarInBackground = (userId: string, calendarId: string) => {
+  refreshUserCalendarWatch(userId, { owner: userId, calendarId }).catch((error: any) => {
+    console.error(`User calendar: Failed to watch calendar of user ${userId}:`, error.message);
+  });
+};
+
+// Открытые задачи пользователя (исполнитель или владелец календаря) — на синхронизацию:
+// очередь сама перенесет события туда, где они должны быть
+const enqueueUserTasksSync = async (userId: string) => {
+  const tasks = await Task.find({
+    $or: [{ 'assignee.id': userId }, { calendarOwner: userId }],
+    isHidden: { $ne: true },
+    'recurrence.nextTask': { $exists: false },
+  }).select('_id');
+  for (const task of tasks) {
+    await enqueueTaskCalendarSync(task._id as Types.ObjectId);
+  }
+  console.log(`User calendar: ${tasks.length} tasks of user ${userId} queued for calendar sync`);
+};
+
+// Снимает с задач ссылки на события в календаре пользователя (сами события не трогает)
+const unlinkUserTasks = async (userId: string) => {
+  await Task.updateMany(
+    { calendarOwner: userId },
+    {
+      $unset: {
+        calendarEventId: 1,
+        calendarOwner: 1,
+        calendarId: 1,
+        'recurrence.calendarSeriesId': 1,
+        'recurrence.calendarSeriesStart': 1,
+      },
+    },
+    { skipVersion: true },
+  );
+};
+
+// Удаляет из календаря пользователя все события задач (пока доступ еще есть)
+const removeUserCalendarEvents = async (userId: string) => {
+  const [tasks, jobs] = await Promise.all([
+    Task.find({ calendarOwner: userId }).select('calendarEventId calendarId recurrence'),
+    CalendarSyncJob.find({ owner: userId, type: 'delete_event' }),
+  ]);
+  const operations = new Map<string, CalendarBatchOperation>();
+  const add = (eventId: string, calendarId?: string) =>
+    operations.set(eventId, { method: 'DELETE', eventId, owner: userId, calendarId });
+  for (const job of jobs) add(job.eventId!, job.calendarId);
+  for (const task of tasks) {
+    // Серия удаляется целиком, вместе с экземплярами
+    const seriesId = task.recurrence?.calendarSeriesId;
+    if (seriesId) add(seriesId, task.calendarId);
+    else if (task.calendarEventId) add(task.calendarEventId, task.calendarId);
+  }
+  await runCalendarBatch([...operations.values()]);
+};
+
+/**
+ * Ссылка на согласие Google; после него Google вернет пользователя на GOOGLE_OAUTH_REDIRECT_URI.
+ * nonce из state должен вернуться из браузера, начавшего подключение (cookie):
+ * чужая ссылка на согласие не привяжет календарь жертвы к аккаунту атакующего.
+ */
+export const buildCalendarConnectUrl = (user: IUser): { url: string; nonce: string } => {
+  assertUserCalendarEnabled();
+  const nonce = randomBytes(16).toString('base64url');
+  const state = jwt.sign({ purpose: STATE_PURPOSE, nonce }, stateSecret(), {
+    subject: String(user._id),
+    expiresIn: CALENDAR_CONNECT_TTL_SECONDS,
+  });
+  const url = createOAuthClient().generateAuthUrl({
+    access_type: 'offline',
+    prompt: 'consent', // Иначе при повторном подключении Google не выдаст refresh token
+    scope: SCOPES,
+    state,
+    login_hint: user.email,
+    include_granted_scopes: true,
+  });
+  return { url, nonce };
+};
+
+/**
+ * Завершает OAuth: меняет code на токены и сохраняет их зашифрованными.
+ * nonce — из cookie браузера, начавшего подключение.
+ * Открытые задачи пользователя переезжают в его календарь через очередь.
+ */
+export const connectUserCalendar = async (
+  state: string,
+  code: string,
+  nonce: string | undefined,
+): Promise<IUser> => {
+  assertUserCalendarEnabled();
+  let userId: string;
+  try {
+    const payload = jwt.verify(state, stateSecret()) as JwtPayload;
+    if (payload.purpose !== STATE_PURPOSE || !payload.sub) throw new Error('Wrong state');
+    if (!nonce || payload.nonce !== nonce) throw new Error('Nonce mismatch');
+    userId = payload.sub;
+  } catch {
+    throw new HttpError(400, 'Invalid or expired OAuth state');
+  }
+  const user = await User.findById(userId);
+  if (!user) throw new HttpError(404, 'User not found');
+
+  const oauthClient = createOAuthClient();
+  let tokens: Credentials;
+  try {
+    ({ tokens } = await oauthClient.getToken(code));
+  } catch (error: any) {
+    console.error('User calendar: Failed to exchange authorization code:', error.message || error);
+    throw new HttpError(400, 'Failed to exchange authorization code');
+  }
+  if (!tokens.refresh_token) {
+    throw new HttpError(400, 'Google did not return a refresh token');
+  }
+  if (!tokens.scope?.split(' ').includes(CALENDAR_EVENTS_SCOPE)) {
+    throw new HttpError(400, 'Access to Google Calendar events was not granted');
+  }
+  let email: string | undefined;
+  if (tokens.id_token) {
+    const ticket = await oauthClient.verifyIdToken({
+      idToken: tokens.id_token,
+      audience: config.GOOGLE_CLIENT_ID,
+    });
+    email = ticket.getPayload()?.email;
+  }
+
+  // Подключили другой Google-аккаунт: старые события недоступны, задачи создадут новые
+  const previous = user.googleCalendar;
+  const sameAccount = previous && previous.email === email;
+  if (previous && !sameAccount) {
+    // syncToken и каналы прежнего аккаунта к новому не подходят
+    await refreshUserCalendarWatch(userId).catch((error: any) => {
+      console.error(`User calendar: Failed to stop watching calendar of ${userId}:`, error.message);
+    });
+    await unlinkUserTasks(userId);
+    await CalendarSyncJob.deleteMany({ owner: userId });
+  }
+  user.googleCalendar = {
+    calendarId: sameAccount ? previous.calendarId : PRIMARY_CALENDAR_ID,
+    email,
+    tokens: encryptSecret(JSON.stringify(tokens)),
+    connectedAt: new Date(),
+  };
+  await user.save();
+  clients.delete(userId);
+  console.log(`User calendar: User ${userId} connected Google Calendar (${email ?? 'unknown'})`);
+
+  await enqueueUserTasksSync(userId);
+  watchUserCalendarInBackground(userId, user.googleCalendar.calendarId);
+  return user;
+};
+
+const requireUserCalendarClient = async (userId: string) => {
+  const client = await getUserCalendarClient(userId);
+  if (!client) throw new HttpError(409, 'Google Calendar is not connected');
+  return client;
+};
+
+// Календари пользователя, в которые можно писать
+export const listUserCalendars = async (userId: string): Promise<UserCalendarListEntry[]> => {
+  const client = await requireUserCalendarClient(userId);
+  let items: calendar_v3.Schema$CalendarListEntry[];
+  try {
+    const response = await client.calendar.calendarList.list({ minAccessRole: 'writer' });
+    items = response.data.items ?? [];
+  } catch (error: any) {
+    console.error(`User calendar: Failed to list calendars of user ${userId}:`, error.message);
+    throw new HttpError(502, 'Failed to list Google calendars');
+  }
+  return items
+    .filter((item) => item.id)
+    .map((item) => ({
+      id: item.primary ? PRIMARY_CALENDAR_ID : item.id!,
+      summary: item.summaryOverride || item.summary || item.id!,
+      primary: Boolean(item.primary),
+      selected: item.primary
+        ? client.calendarId === PRIMARY_CALENDAR_ID || client.calendarId === item.id
+        : client.calendarId === item.id,
+    }));
+};
+
+// Выбор календаря для событий задач; существующие события переезжают через очередь
+export const selectUserCalendar = async (userId: string, calendarId: string): Promise<void> => {
+  const calendars = await listUserCalendars(userId);
+  const chosen = calendars.find(
+    (entry) => entry.id === calendarId || (entry.primary && calendarId === PRIMARY_CALENDAR_ID),
+  );
+  if (!chosen) {
+    throw new HttpError(400, 'Calendar not found or not writable', { calendarId });
+  }
+  if (chosen.selected) return;
+
+  await User.updateOne({ _id: userId }, { $set: { 'googleCalendar.calendarId': chosen.id } });
+  clients.delete(userId);
+  console.log(`User calendar: User ${userId} selected calendar ${chosen.id}`);
+  await enqueueUserTasksSync(userId);
+  watchUserCalendarInBackground(userId, chosen.id);
+};
+
+/**
+ * Отключает календарь: удаляет из него события задач, отзывает доступ у Google
+ * и забывает токены. Задачи возвращаются в общий календарь через очередь.
+ */
+export const disconnectUserCalendar = async (userId: string): Promise<void> => {
+  const user = await User.findById(userId);
+  if (!user?.googleCalendar) return;
+
+  const client = await getUserCalendarClient(userId);
+  // Каналы уведомлений закрываются, пока доступ еще есть
+  await refreshUserCalendarWatch(userId).catch((error: any) => {
+    console.error(`User calendar: Failed to stop watching calendar of ${userId}:`, error.message);
+  });
+  if (client) {
+    await removeUserCalendarEvents(userId);
+    const refreshToken = client.authClient.credentials.refresh_token;
+    if (refreshToken) {
+      await client.authClient.revokeToken(refreshToken).catch((error: any) => {
+        // Доступ уже отозван в аккаунте Google
+        console.warn(`User calendar: Failed to revoke token of user ${userId}:`, error.message);
+      });
+    }
+  }
+  await unlinkUserTasks(userId);
+  await CalendarSyncJob.deleteMany({ owner: userId });
+
+  user.googleCalendar = undefined;
+  await user.save();
+  clients.delete(userId);
+  console.log(`User calendar: User ${userId} disconnected Google Calendar`);
+
+  await enqueueUserTasksSync(userId);
+};
+
+export const getCalendarIntegrationStatus = async (
+  userId: string,
+): Promise<CalendarIntegrationStatus> => {
+  const user = await User.findById(userId).select('googleCalendar');
+  if (!user) throw new HttpError(404, 'User not found');
+  // Задания по задачам пользователя и операции в его календаре
+  const taskIds = await Task.distinct('_id', { 'assignee.id': userId });
+  const jobsFilter = { $or: [{ task: { $in: taskIds } }, { owner: userId }] };
+  const [pending, failed] = await Promise.all([
+    CalendarSyncJob.countDocuments({ ...jobsFilter, status: { $in: ['pending', 'running'] } }),
+    CalendarSyncJob.countDocuments({ ...jobsFilter, status: 'failed' }),
+  ]);
+  const connection = user.googleCalendar;
+  return {
+    isIntegrated: Boolean(connection) && isUserCalendarEnabled(),
+    available: isUserCalendarEnabled(),
+    calendarId: connection?.calendarId,
+    email: connection?.email,
+    connectedAt: connection?.connectedAt,
+    sync: { pending, failed },
+  };
+};
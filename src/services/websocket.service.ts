@@ -5,7 +5,28 @@ import mongoose, { Types } from 'mongoose'; // Импортируем Types
 import config from '../config';
 import { ITask } from '../types/taskTypes'; // Серверный тип ITask
 import { Task } from '../models/task.model';
-import { deleteCalendarEvent } from '../services/googleCalendar.service';
+import {
+  resolveTaskAccess,
+  getForbiddenUpdateFields,
+  pickTaskUpdates,
+  UPDATABLE_TASK_FIELDS,
+} from './taskAccess.service';
+import { findBoardForMember } from './boards.service';
+import { recordTaskActivity, snapshotTask, diffTaskSnapshots } from './activity.service';
+import { assertStatusTransition } from './workflow.service';
+import { notifyTaskActivity } from './notification.service';
+import {
+  spawnNextRecurrence,
+  moveTask,
+  assertTaskVersion,
+  saveTaskIfUnchanged,
+} from './tasks.service';
+import { getColumnEndRank } from './taskRank.service';
+import { moveTaskToTrash } from './trash.service';
+import { assertBlockersResolved } from './taskDependency.service';
+import { resolveTaskLabels } from './labels.service';
+import { enqueueTaskCalendarSync, affectsCalendarEvent } from './calendarOutbox.service';
+import { HttpError } from '../middleware/errorHandler';
 
 // Расширение Socket
 declare module 'socket.io' {
@@ -16,6 +37,42 @@ declare module 'socket.io' {
 
 let ioInstance: Server | null = null;
 
+interface ClientUpdateTaskPayload {
+  taskId: string;
+  updates: Partial<ITask>;
+  version: number; // Версия задачи, которую правил клиент
+  force?: boolean; // Закрыть задачу, несмотря на открытые блокеры
+}
+
+// Перенос карточки: новая колонка (необязательно) и сосед, рядом с которым она встает
+interface ClientMoveTaskPayload {
+  taskId: string;
+  status?: string;
+  afterTaskId?: string;
+  beforeTaskId?: string;
+  force?: boolean;
+}
+
+// Через WS не меняются исполнитель, родитель (проверка циклов) и правило повторения (серия событий)
+const WS_UPDATABLE_TASK_FIELDS = UPDATABLE_TASK_FIELDS.filter(
+  (field) => !['assignee', 'parent', 'recurrence'].includes(field),
+);
+
+// --- Имена комнат ---
+// Личная комната пользователя называется его mongoUserId
+export const boardRoom = (boardId: string) => `board:${boardId}`;
+export const taskRoom = (taskId: string) => `task:${taskId}`;
+
+// Комнаты всех, кто может видеть задачу: владелец, исполнитель, подписчики доски и задачи
+const getTaskRooms = (task: ITask | any): string[] => {
+  const rooms = new Set<string>();
+  if (task.owner) rooms.add(task.owner.toString());
+  if (task.assignee?.id) rooms.add(task.assignee.id.toString());
+  if (task.board) rooms.add(boardRoom(task.board.toString()));
+  if (task.id) rooms.add(taskRoom(task.id.toString()));
+  return Array.from(rooms);
+};
+
 export const setupWebSocket = (io: Server) => {
   ioInstance = io; // Сохраняем экземпляр io
 
@@ -57,14 +114,13 @@ export const setupWebSocket = (io: Server) => {
     }
 
     // --- Обработчик обновления задачи от клиента ---
-    socket.on('CLIENT_UPDATE_TASK', async (data: { taskId: string; updates: Partial<ITask> }) => {
+    socket.on('CLIENT_UPDATE_TASK', async (data: ClientUpdateTaskPayload) => {
       const userId = socket.mongoUserId;
       if (!userId) {
         return;
       } // Игнорируем, если нет ID
 
       const taskId = data.taskId;
-      let updatesPayload: Partial<ITask> = { ...data.updates }; // Копируем обновления
 
       console.log(`WS Event: Received CLIENT_UPDATE_TASK from user ${userId} for task ${taskId}`);
 
@@ -74,12 +130,10 @@ export const setupWebSocket = (io: Server) => {
       }
 
       try {
-        // Находим задачу и проверяем права доступа
-        const task = await Task.findOne({
-          _id: new Types.ObjectId(taskId),
-          owner: new Types.ObjectId(userId),
-        });
-        if (!task) {
+        // Находим задачу и проверяем права доступа через членство в доске
+        const task = await Task.findById(taskId);
+        const access = task ? await resolveTaskAccess(task, userId) : null;
+        if (!task || !access?.canEdit) {
           socket.emit('TASK_UPDATE_ERROR', {
             taskId: taskId,
             message: 'Task not found or permission denied',
@@ -88,26 +142,71 @@ export const setupWebSocket = (io: Server) => {
         }
 
         // --- Очистка данных перед обновлением ---
-        // Удаляем поля, которые не должны обновляться, используя 'as any' для обхода TS ошибки
-        delete (updatesPayload as any).owner; // <<< ИСПРАВЛЕНИЕ ЗДЕСЬ
-        delete (updatesPayload as any).createdAt;
-        delete (updatesPayload as any).updatedAt;
-        delete (updatesPayload as any)._id;
-        delete (updatesPayload as any).id;
-        delete (updatesPayload as any).calendarEventId;
-        if ('assignee' in updatesPayload) {
-          delete updatesPayload.assignee; // Запрещаем обновление assignee через WS
-        }
+        // Только разрешенные поля, операторы MongoDB отклоняются (400 в TASK_UPDATE_ERROR)
+        const updatesPayload = pickTaskUpdates(data.updates, WS_UPDATABLE_TASK_FIELDS);
         // ---------------------------------------
 
+        // Исполнитель без прав участника доски меняет только статус и описание
+        const forbiddenFields = getForbiddenUpdateFields(access, updatesPayload);
+        if (forbiddenFields.length > 0) {
+          socket.emit('TASK_UPDATE_ERROR', {
+            taskId: taskId,
+            message: `Permission denied for fields: ${forbiddenFields.join(', ')}`,
+            forbiddenFields,
+          });
+          return;
+        }
+
+        // Устаревшая правка не применяется: клиент получит TASK_UPDATE_CONFLICT с копией сервера
+        assertTaskVersion(task, Number.isInteger(data.version) ? data.version : null);
+
         // Применяем разрешенные обновления
+        // Переход статуса проверяется по процессу доски
+        if (updatesPayload.status !== undefined) {
+          await assertStatusTransition(task, updatesPayload.status);
+          await assertBlockersResolved(task, updatesPayload.status, data.force === true);
+          if (updatesPayload.status !== task.status) {
+            updatesPayload.rank = await getColumnEndRank(
+              task.board,
+              updatesPayload.status,
+              task._id as Types.ObjectId,
+            );
+          }
+        }
+
+        if (updatesPayload.labels !== undefined) {
+          updatesPayload.labels = await resolveTaskLabels(task.board, updatesPayload.labels);
+        }
+
+        const before = snapshotTask(task);
         task.set(updatesPayload);
-        const updatedTask = await task.save();
+        const updatedTask = await saveTaskIfUnchanged(task);
+        const changes = diffTaskSnapshots(before, snapshotTask(updatedTask));
+        await recordTaskActivity('updated', updatedTask, userId, changes);
+        await notifyTaskActivity('updated', updatedTask, userId, changes);
         console.log(`WS Event 'CLIENT_UPDATE_TASK': Task ${taskId} updated successfully in DB.`);
+        if (affectsCalendarEvent(changes)) {
+          await enqueueTaskCalendarSync(updatedTask._id as Types.ObjectId);
+        }
+
+        const nextOccurrence = await spawnNextRecurrence(updatedTask, userId);
 
         // Рассылаем обновленную задачу всем клиентам
         broadcastTaskUpdate(updatedTask);
+        if (nextOccurrence) broadcastTaskUpdate(nextOccurrence);
       } catch (error: any) {
+        if (error instanceof HttpError) {
+          const event =
+            error.details?.code === 'VERSION_CONFLICT'
+              ? 'TASK_UPDATE_CONFLICT'
+              : 'TASK_UPDATE_ERROR';
+          socket.emit(event, {
+            taskId: taskId,
+            message: error.message,
+            ...error.details,
+          });
+          return;
+        }
         console.error(`WS Error processing CLIENT_UPDATE_TASK for task ${taskId}:`, error);
         if (error.name === 'ValidationError') {
           socket.emit('TASK_UPDATE_ERROR', {
@@ -124,6 +223,67 @@ export const setupWebSocket = (io: Server) => {
       }
     });
 
+    // --- Перенос карточки (drag-and-drop) ---
+    // Сервер сам вычисляет ранг по соседям и рассылает итог всем, поэтому порядок сходится
+    socket.on('CLIENT_MOVE_TASK', async (data: ClientMoveTaskPayload) => {
+      const userId = socket.mongoUserId;
+      if (!userId) {
+        return;
+      }
+      const taskId = data?.taskId;
+      if (!mongoose.Types.ObjectId.isValid(taskId)) {
+        socket.emit('TASK_MOVE_ERROR', { taskId: taskId, message: 'Invalid task ID format' });
+        return;
+      }
+
+      console.log(`WS Event: Received CLIENT_MOVE_TASK from user ${userId} for task ${taskId}`);
+      try {
+        const task = await Task.findById(taskId);
+        const access = task ? await resolveTaskAccess(task, userId) : null;
+        if (!task || !access?.canEdit) {
+          socket.emit('TASK_MOVE_ERROR', {
+            taskId: taskId,
+            message: 'Task not found or permission denied',
+          });
+          return;
+        }
+        if (data.status !== undefined && typeof data.status !== 'string') {
+          socket.emit('TASK_MOVE_ERROR', { taskId: taskId, message: 'Status must be a string' });
+          return;
+        }
+
+        const result = await moveTask(
+          task,
+          {
+            status: data.status,
+            afterTaskId: data.afterTaskId,
+            beforeTaskId: data.beforeTaskId,
+            force: data.force === true,
+          },
+          userId,
+        );
+        console.log(`WS Event 'CLIENT_MOVE_TASK': Task ${taskId} moved successfully.`);
+
+        broadcastTaskUpdate(result.task);
+        result.rebalanced.forEach((neighbour) => broadcastTaskUpdate(neighbour));
+        if (result.nextOccurrence) broadcastTaskUpdate(result.nextOccurrence);
+      } catch (error: any) {
+        if (error instanceof HttpError) {
+          socket.emit('TASK_MOVE_ERROR', {
+            taskId: taskId,
+            message: error.message,
+            ...error.details,
+          });
+          return;
+        }
+        console.error(`WS Error processing CLIENT_MOVE_TASK for task ${taskId}:`, error);
+        socket.emit('TASK_MOVE_ERROR', {
+          taskId: taskId,
+          message: error.message || 'Failed to move task',
+        });
+      }
+    });
+
     // --- Обработчик удаления задачи от клиента ---
     socket.on('CLIENT_DELETE_TASK', async (data: { taskId: string }) => {
       const userId = socket.mongoUserId;
@@ -138,11 +298,9 @@ export const setupWebSocket = (io: Server) => {
 
       console.log(`WS Event: Received CLIENT_DELETE_TASK from user ${userId} for task ${taskId}`);
       try {
-        const taskToDelete = await Task.findOne({
-          _id: new Types.ObjectId(taskId),
-          owner: new Types.ObjectId(userId),
-        });
-        if (!taskToDelete) {
+        const taskToDelete = await Task.findById(taskId);
+        const access = taskToDelete ? await resolveTaskAccess(taskToDelete, userId) : null;
+        if (!taskToDelete || !access?.canDelete) {
           socket.emit('TASK_DELETE_ERROR', {
             taskId: taskId,
             message: 'Task not found or permission denied',
@@ -150,18 +308,11 @@ export const setupWebSocket = (io: Server) => {
           return;
         }
 
-        const calendarEventIdToDelete = taskToDelete.calendarEventId;
-        if (calendarEventIdToDelete) {
-          console.log(
-            `WS: Attempting to delete Google Calendar event ${calendarEventIdToDelete}...`,
-          );
-          await deleteCalendarEvent(calendarEventIdToDelete);
-        }
-
-        await Task.findByIdAndDelete(taskId);
-        console.log(`WS Event 'CLIENT_DELETE_TASK': Task ${taskId} deleted successfully from DB.`);
+        // Как и через REST, задача уходит в корзину
+        await moveTaskToTrash(taskToDelete, userId);
+        console.log(`WS Event 'CLIENT_DELETE_TASK': Task ${taskId} moved to trash.`);
 
-        broadcastTaskDelete(taskId); // Рассылаем ID удаленной задачи
+        broadcastTaskDelete(taskToDelete); // Рассылаем ID удаленной задачи
       } catch (error: any) {
         console.error(`WS Error processing CLIENT_DELETE_TASK for task ${taskId}:`, error);
         socket.emit('TASK_DELETE_ERROR', {
@@ -171,6 +322,72 @@ export const setupWebSocket = (io: Server) => {
       }
     });
 
+    // --- Подписка на обновления доски ---
+    socket.on('CLIENT_SUBSCRIBE_BOARD', async (data: { boardId: string }) => {
+      const userId = socket.mongoUserId;
+      if (!userId) {
+        return;
+      }
+      const boardId = data?.boardId;
+      try {
+        const access = await findBoardForMember(boardId, userId);
+        if (!access) {
+          socket.emit('SUBSCRIPTION_ERROR', {
+            boardId,
+            message: 'Board not found or access denied',
+          });
+          return;
+        }
+        socket.join(boardRoom(boardId));
+        console.log(`WS Room: Socket ${socket.id} joined room ${boardRoom(boardId)}`);
+        socket.emit('SUBSCRIBED', { boardId });
+      } catch (error: any) {
+        console.error(`WS Error processing CLIENT_SUBSCRIBE_BOARD for board ${boardId}:`, error);
+        socket.emit('SUBSCRIPTION_ERROR', { boardId, message: 'Failed to subscribe to board' });
+      }
+    });
+
+    socket.on('CLIENT_UNSUBSCRIBE_BOARD', (data: { boardId: string }) => {
+      if (!data?.boardId) return;
+      socket.leave(boardRoom(data.boardId));
+      console.log(`WS Room: Socket ${socket.id} left room ${boardRoom(data.boardId)}`);
+      socket.emit('UNSUBSCRIBED', { boardId: data.boardId });
+    });
+
+    // --- Подписка на обновления отдельной задачи ---
+    socket.on('CLIENT_SUBSCRIBE_TASK', async (data: { taskId: string }) => {
+      const userId = socket.mongoUserId;
+      if (!userId) {
+        return;
+      }
+      const taskId = data?.taskId;
+      if (!mongoose.Types.ObjectId.isValid(taskId)) {
+        socket.emit('SUBSCRIPTION_ERROR', { taskId, message: 'Invalid task ID format' });
+        return;
+      }
+      try {
+        const task = await Task.findById(taskId);
+        const access = task ? await resolveTaskAccess(task, userId) : null;
+        if (!access?.canView) {
+          socket.emit('SUBSCRIPTION_ERROR', { taskId, message: 'Task not found or access denied' });
+          return;
+        }
+        socket.join(taskRoom(taskId));
+        console.log(`WS Room: Socket ${socket.id} joined room ${taskRoom(taskId)}`);
+        socket.emit('SUBSCRIBED', { taskId });
+      } catch (error: any) {
+        console.error(`WS Error processing CLIENT_SUBSCRIBE_TASK for task ${taskId}:`, error);
+        socket.emit('SUBSCRIPTION_ERROR', { taskId, message: 'Failed to subscribe to task' });
+      }
+    });
+
+    socket.on('CLIENT_UNSUBSCRIBE_TASK', (data: { taskId: string }) => {
+      if (!data?.taskId) return;
+      socket.leave(taskRoom(data.taskId));
+      console.log(`WS Room: Socket ${socket.id} left room ${taskRoom(data.taskId)}`);
+      socket.emit('UNSUBSCRIBED', { taskId: data.taskId });
+    });
+
     // --- Обработчик Отключения Клиента ---
     socket.on('disconnect', (reason) => {
       console.log(
@@ -191,20 +408,130 @@ export const broadcastTaskUpdate = (task: ITask | any) => {
     console.error("WS Broadcast Error: Task object missing 'id'.", taskObject);
     return;
   }
-  console.log(`WS Broadcast: Emitting TASK_UPDATED for task ${taskObject.id}`);
-  ioInstance.emit('TASK_UPDATED', taskObject);
+  const rooms = getTaskRooms(taskObject);
+  console.log(
+    `WS Broadcast: Emitting TASK_UPDATED for task ${taskObject.id} to rooms ${rooms.join(', ')}`,
+  );
+  ioInstance.to(rooms).emit('TASK_UPDATED', taskObject);
 };
 
-export const broadcastTaskDelete = (taskId: string) => {
+// Принимает удаленную задачу (нужна для выбора комнат), клиентам уходит только ее ID
+export const broadcastTaskDelete = (task: ITask | any) => {
   if (!ioInstance) {
     console.error('WS Broadcast Error: ioInstance is not available.');
     return;
   }
+  const taskObject = typeof task.toJSON === 'function' ? task.toJSON() : task;
+  const taskId = taskObject?.id;
   if (!taskId || !mongoose.Types.ObjectId.isValid(taskId)) {
     console.error(`WS Broadcast Error: Invalid taskId: ${taskId}`);
     return;
   }
-  console.log(`WS Broadcast: Emitting TASK_DELETED for task ${taskId}`);
-  ioInstance.emit('TASK_DELETED', taskId);
+  const rooms = getTaskRooms(taskObject);
+  console.log(
+    `WS Broadcast: Emitting TASK_DELETED for task ${taskId} to rooms ${rooms.join(', ')}`,
+  );
+  ioInstance.to(rooms).emit('TASK_DELETED', taskId);
+};
+
+/**
+ * Одно событие TASKS_BULK_CHANGED вместо TASK_UPDATED/TASK_DELETED по каждой задаче
+ * (POST /api/tasks/bulk). Каждая комната получает только свои задачи; сокет из нескольких
+ * комнат может получить задачу дважды, клиент применяет изменения по id.
+ */
+export const broadcastTaskBulkChange = (updated: (ITask | any)[], deleted: (ITask | any)[]) => {
+  if (!ioInstance) {
+    console.error('WS Broadcast Error: ioInstance is not available.');
+    return;
+  }
+  const payloads = new Map<string, { tasks: Map<string, any>; deletedTaskIds: Set<string> }>();
+  const forRooms = (taskObject: any) =>
+    getTaskRooms(taskObject).map((room) => {
+      if (!payloads.has(room)) payloads.set(room, { tasks: new Map(), deletedTaskIds: new Set() });
+      return payloads.get(room)!;
+    });
+
+  for (const task of updated) {
+    const taskObject = typeof task.toJSON === 'function' ? task.toJSON() : task;
+    if (!taskObject?.id) continue;
+    forRooms(taskObject).forEach((payload) => payload.tasks.set(taskObject.id, taskObject));
+  }
+  for (const task of deleted) {
+    const taskObject = typeof task.toJSON === 'function' ? task.toJSON() : task;
+    if (!taskObject?.id) continue;
+    forRooms(taskObject).forEach((payload) => payload.deletedTaskIds.add(taskObject.id));
+  }
+
+  console.log(
+    `WS Broadcast: Emitting TASKS_BULK_CHANGED (${updated.length} updated, ${deleted.length} deleted) to ${payloads.size} rooms`,
+  );
+  payloads.forEach((payload, room) => {
+    ioInstance!.to(room).emit('TASKS_BULK_CHANGED', {
+      tasks: Array.from(payload.tasks.values()),
+      deletedTaskIds: Array.from(payload.deletedTaskIds),
+    });
+  });
+};
+
+// Событие в личную комнату пользователя (все его вкладки и устройства)
+export const emitToUser = (userId: string, event: string, payload: any) => {
+  if (!ioInstance) {
+    console.error('WS Emit Error: ioInstance is not available.');
+    return;
+  }
+  console.log(`WS Emit: Sending ${event} to user ${userId}`);
+  ioInstance.to(userId).emit(event, payload);
+};
+
+export type CommentEvent = 'COMMENT_ADDED' | 'COMMENT_UPDATED' | 'COMMENT_DELETED';
+
+// События комментариев уходят в те же комнаты, что и обновления самой задачи
+export const broadcastCommentEvent = (event: CommentEvent, task: ITask | any, payload: any) => {
+  if (!ioInstance) {
+    console.error('WS Broadcast Error: ioInstance is not available.');
+    return;
+  }
+  const taskObject = typeof task.toJSON === 'function' ? task.toJSON() : task;
+  const rooms = getTaskRooms(taskObject);
+  console.log(
+    `WS Broadcast: Emitting ${event} for task ${taskObject.id} to rooms ${rooms.join(', ')}`,
+  );
+  ioInstance.to(rooms).emit(event, payload);
+};
+
+/**
+ * Отписывает все сокеты пользователя от комнаты доски (например, после исключения из доски)
+ * и от комнат ее задач, которые он больше не видит. Задачи, где он исполнитель,
+ * остаются ему видны, их подписки сохраняются.
+ */
+export const removeUserFromBoardRoom = async (boardId: string, userId: string) => {
+  if (!ioInstance) return;
+  ioInstance.in(userId).socketsLeave(boardRoom(boardId));
+  try {
+    const sockets = await ioInstance.in(userId).fetchSockets();
+    const prefix = taskRoom('');
+    const taskIds = new Set<string>();
+    for (const socket of sockets) {
+      for (const room of socket.rooms) {
+        if (room.startsWith(prefix)) taskIds.add(room.slice(prefix.length));
+      }
+    }
+    if (taskIds.size === 0) return;
+    const tasks = await Task.find({ _id: { $in: Array.from(taskIds) }, board: boardId });
+    for (const task of tasks) {
+      const access = await resolveTaskAccess(task, userId);
+      if (access.canView) continue;
+      ioInstance.in(userId).socketsLeave(taskRoom(task.id));
+      console.log(`WS Room: User ${userId} left room ${taskRoom(task.id)} after losing access`);
+    }
+  } catch (error: any) {
+    console.error(`WS Error removing user ${userId} from task rooms of board ${boardId}:`, error);
+  }
+};
+
+// Закрывает комнату доски целиком (после удаления доски)
+export const closeBoardRoom = (boardId: string) => {
+  if (!ioInstance) return;
+  ioInstance.in(boardRoom(boardId)).socketsLeave(boardRoom(boardId));
 };
 // ---------------------------------------------------------
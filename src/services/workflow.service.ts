@@ -0,0 +1,168 @@
+// src/services/workflow.service.ts
+import { Types } from 'mongoose';
+import { Board } from '../models/board.model';
+import { Task } from '../models/task.model';
+import { IBoard, IWorkflow, IWorkflowStatus } from '../types/boardTypes';
+import { ITask } from '../types/taskTypes';
+import { HttpError } from '../middleware/errorHandler';
+
+// Рабочий процесс досок, для которых свой не настроен (и задач без доски)
+export const DEFAULT_WORKFLOW: IWorkflow = {
+  statuses: [
+    { key: 'todo', name: 'To Do', order: 0 },
+    { key: 'in-progress', name: 'In Progress', order: 1 },
+    { key: 'done', name: 'Done', order: 2, isFinal: true },
+  ],
+};
+
+const MAX_STATUSES = 20;
+const STATUS_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+export const getWorkflow = (board: IBoard | null | undefined): IWorkflow => {
+  const statuses = board?.workflow?.statuses;
+  if (!statuses || statuses.length === 0) return DEFAULT_WORKFLOW;
+  return { statuses: [...statuses].sort((a, b) => a.order - b.order) };
+};
+
+export const getTaskWorkflow = async (task: ITask): Promise<IWorkflow> => {
+  if (!task.board) return DEFAULT_WORKFLOW;
+  return getWorkflow(await Board.findById(task.board));
+};
+
+export const findWorkflowStatus = (workflow: IWorkflow, key: string) =>
+  workflow.statuses.find((status) => status.key === key);
+
+// Статус новой задачи — первая колонка процесса
+export const getInitialStatus = (workflow: IWorkflow): string => workflow.statuses[0].key;
+
+// Статусы, в которых задача считается выполненной
+export const getFinalStatuses = (workflow: IWorkflow): string[] =>
+  workflow.statuses.filter((status) => status.isFinal).map((status) => status.key);
+
+// Проверка «задача выполнена» для набора задач: процессы их досок загружаются один раз
+export const buildDoneChecker = async (tasks: ITask[]): Promise<(task: ITask) => boolean> => {
+  const boardIds = [...new Set(tasks.filter((t) => t.board).map((t) => t.board!.toString()))];
+  const boards = await Board.find({ _id: { $in: boardIds } });
+  const finalByBoard = new Map(
+    boards.map((board) => [board.id as string, getFinalStatuses(getWorkflow(board))]),
+  );
+  const defaultFinal = getFinalStatuses(DEFAULT_WORKFLOW);
+  return (task) => {
+    const finalStatuses = task.board
+      ? (finalByBoard.get(task.board.toString()) ?? defaultFinal)
+      : defaultFinal;
+    return finalStatuses.includes(task.status);
+  };
+};
+
+export const assertStatusExists = (workflow: IWorkflow, key: string): IWorkflowStatus => {
+  const status = findWorkflowStatus(workflow, key);
+  if (!status) {
+    throw new HttpError(422, `Unknown status "${key}"`, {
+      code: 'UNKNOWN_STATUS',
+      allowedStatuses: workflow.statuses.map((s) => s.key),
+    });
+  }
+  return status;
+};
+
+// Проверяет WIP-лимит колонки; excludeTaskId — задача, которая уже в ней
+export const assertWipCapacity = async (
+  boardId: Types.ObjectId | undefined,
+  status: IWorkflowStatus,
+  excludeTaskId?: Types.ObjectId,
+) => {
+  if (!boardId || !status.wipLimit) return;
+  // Архивные задачи место в колонке не занимают
+  const filter: Record<string, any> = {
+    board: boardId,
+    status: status.key,
+    isHidden: { $ne: true },
+  };
+  if (excludeTaskId) filter._id = { $ne: excludeTaskId };
+  const count = await Task.countDocuments(filter);
+  if (count >= status.wipLimit) {
+    throw new HttpError(409, `WIP limit reached for "${status.name}" (${status.wipLimit} tasks)`, {
+      code: 'WIP_LIMIT_REACHED',
+      status: status.key,
+      wipLimit: status.wipLimit,
+    });
+  }
+};
+
+/**
+ * Проверяет перевод задачи в новый статус по процессу ее доски:
+ * статус существует, переход разрешен, в колонке есть место.
+ * Бросает HttpError (422 — переход запрещен, 409 — WIP-лимит).
+ */
+export const assertStatusTransition = async (task: ITask, toStatus: string) => {
+  const workflow = await getTaskWorkflow(task);
+  const target = assertStatusExists(workflow, toStatus);
+  if (task.status === toStatus) return;
+
+  const current = findWorkflowStatus(workflow, task.status);
+  // Из статуса, которого уже нет в процессе, разрешаем уйти куда угодно
+  if (current?.allowedNext && !current.allowedNext.includes(toStatus)) {
+    throw new HttpError(
+      422,
+      `Moving a task from "${current.name}" to "${target.name}" is not allowed`,
+      {
+        code: 'TRANSITION_NOT_ALLOWED',
+        from: current.key,
+        to: target.key,
+        allowedNext: current.allowedNext,
+      },
+    );
+  }
+
+  await assertWipCapacity(task.board, target, task._id as Types.ObjectId);
+};
+
+// Проверяет и нормализует процесс, присланный клиентом. Бросает HttpError 400
+export const parseWorkflowDefinition = (input: any): IWorkflow => {
+  if (!input || !Array.isArray(input.statuses) || input.statuses.length === 0) {
+    throw new HttpError(400, 'Workflow must contain at least one status');
+  }
+  if (input.statuses.length > MAX_STATUSES) {
+    throw new HttpError(400, `Workflow cannot contain more than ${MAX_STATUSES} statuses`);
+  }
+
+  const statuses: IWorkflowStatus[] = input.statuses.map((raw: any, index: number) => {
+    if (typeof raw?.key !== 'string' || !STATUS_KEY_PATTERN.test(raw.key)) {
+      throw new HttpError(400, `Invalid status key at position ${index}`);
+    }
+    if (raw.wipLimit !== undefined && raw.wipLimit !== null) {
+      if (!Number.isInteger(raw.wipLimit) || raw.wipLimit < 1) {
+        throw new HttpError(400, `WIP limit of "${raw.key}" must be a positive integer`);
+      }
+    }
+    if (raw.allowedNext !== undefined && !Array.isArray(raw.allowedNext)) {
+      throw new HttpError(400, `allowedNext of "${raw.key}" must be an array`);
+    }
+    return {
+      key: raw.key,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : raw.key,
+      order: Number.isFinite(raw.order) ? raw.order : index,
+      wipLimit: raw.wipLimit ?? undefined,
+      allowedNext: raw.allowedNext,
+      isFinal: Boolean(raw.isFinal),
+    };
+  });
+
+  const keys = statuses.map((status) => status.key);
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    throw new HttpError(400, `Duplicate status key "${duplicate}"`);
+  }
+  for (const status of statuses) {
+    const unknown = status.allowedNext?.find((key) => !keys.includes(key));
+    if (unknown) {
+      throw new HttpError(
+        400,
+        `Status "${status.key}" allows a move to unknown status "${unknown}"`,
+      );
+    }
+  }
+
+  return { statuses: statuses.sort((a, b) => a.order - b.order) };
+};
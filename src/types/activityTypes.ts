@@ -0,0 +1,23 @@
+import { Document, Types } from 'mongoose';
+import { IAssignee } from './taskTypes';
+
+export type ActivityType = 'created' | 'updated' | 'deleted' | 'restored';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['created', 'updated', 'deleted', 'restored'];
+
+// Изменение одного поля задачи
+export interface IFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface IActivity extends Document {
+  task: Types.ObjectId;
+  board?: Types.ObjectId;
+  taskTitle: string; // Название на момент события — задача может быть уже удалена
+  type: ActivityType;
+  actor: IAssignee;
+  changes: IFieldChange[];
+  createdAt?: Date;
+}
@@ -0,0 +1,45 @@
+import { Document, Types } from 'mongoose';
+
+// Роли участников доски, от самой сильной к самой слабой
+export type BoardRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export const BOARD_ROLES: BoardRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+export interface IBoardMember {
+  user: Types.ObjectId;
+  role: BoardRole;
+  addedAt?: Date;
+}
+
+// Колонка (статус) рабочего процесса доски
+export interface IWorkflowStatus {
+  key: string; // Значение, которое хранится в task.status
+  name: string; // Подпись колонки
+  order: number;
+  wipLimit?: number; // Максимум задач в колонке (не задан — без ограничений)
+  allowedNext?: string[]; // Куда можно перейти (не задано — в любой статус)
+  isFinal?: boolean; // Задача в этом статусе считается выполненной
+}
+
+export interface IWorkflow {
+  statuses: IWorkflowStatus[];
+}
+
+// Метка из каталога доски; задачи хранят ее _id
+export interface ILabel {
+  _id: Types.ObjectId;
+  name: string;
+  color: string; // #RRGGBB
+}
+
+export interface IBoard extends Document {
+  name: string;
+  description?: string;
+  owner: Types.ObjectId;
+  members: IBoardMember[];
+  isPersonal: boolean; // Личная доска создается автоматически для каждого пользователя
+  workflow?: IWorkflow; // Не задан — используется DEFAULT_WORKFLOW
+  labels: ILabel[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,12 @@
+import { Document, Types } from 'mongoose';
+import { IAssignee } from './taskTypes';
+
+export interface IComment extends Document {
+  task: Types.ObjectId;
+  board?: Types.ObjectId; // Копия task.board для выборок по доске
+  author: IAssignee; // Снимок автора, как у assignee
+  body: string;
+  editedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
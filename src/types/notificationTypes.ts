@@ -0,0 +1,47 @@
+import { Document, Types } from 'mongoose';
+import { IAssignee } from './taskTypes';
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'comment_added'
+  | 'deadline_changed'
+  | 'status_changed'
+  | 'deadline_reminder'
+  | 'task_overdue'
+  | 'custom';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'task_assigned',
+  'comment_added',
+  'deadline_changed',
+  'status_changed',
+  'deadline_reminder',
+  'task_overdue',
+  'custom',
+];
+
+// Так уведомление приходит клиенту (toJSON и событие NOTIFICATION)
+export interface NotificationPayload {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  task?: string;
+  actor?: IAssignee;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface INotification extends Document {
+  user: Types.ObjectId; // Получатель
+  type: NotificationType;
+  title: string;
+  message: string;
+  task?: Types.ObjectId;
+  board?: Types.ObjectId;
+  actor?: IAssignee; // Кто вызвал уведомление
+  isRead: boolean;
+  readAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
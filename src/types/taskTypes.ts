@@ -1,4 +1,4 @@
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 
 export interface IAssignee {
   id: string;
@@ -6,22 +6,99 @@ export interface IAssignee {
   email: string;
 }
 
-export type TaskStatus = 'todo' | 'in-progress' | 'done';
+// Пункт чек-листа задачи
+export interface IChecklistItem {
+  _id: Types.ObjectId;
+  text: string;
+  done: boolean;
+  order: number;
+  assignee?: IAssignee;
+  doneAt?: Date;
+}
+
+// Метаданные вложения; сам файл лежит в хранилище под storageKey
+export interface IAttachment {
+  _id: Types.ObjectId;
+  name: string;
+  mimeType: string;
+  size: number; // Байты
+  storageKey: string;
+  uploadedBy: IAssignee;
+  uploadedAt: Date;
+}
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// От низкого к срочному; индекс — ранг для сортировки
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export type EstimateUnit = 'points' | 'hours';
+
+export const ESTIMATE_UNITS: EstimateUnit[] = ['points', 'hours'];
+
+// Оценка трудозатрат: в story points или в часах
+export interface ITaskEstimate {
+  value: number;
+  unit: EstimateUnit;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Правило повторения задачи (подмножество RRULE). Даты считаются в TARGET_TIMEZONE.
+ * Когда задача выполнена, создается следующий экземпляр с occurrence + 1.
+ */
+export interface IRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number; // Каждые N дней / недель / месяцев
+  weekdays?: number[]; // Для weekly: 0 — воскресенье … 6 — суббота
+  monthDay?: number; // Для monthly: число месяца (месяцы без этого числа пропускаются)
+  until?: Date; // Последний допустимый дедлайн
+  count?: number; // Сколько всего экземпляров
+  occurrence: number; // Номер этого экземпляра, с 1
+  calendarSeriesId?: string; // Повторяющееся событие Google Calendar для всей серии
+  calendarSeriesStart?: number; // С какого экземпляра началась эта серия событий
+  nextTask?: Types.ObjectId; // Уже созданный следующий экземпляр
+}
+
+// Ключ статуса из рабочего процесса доски (по умолчанию todo / in-progress / done)
+export type TaskStatus = string;
 
 export interface ITask extends Document {
   title: string;
   description: string;
-  status: 'todo' | 'in-progress' | 'done';
+  status: TaskStatus;
+  rank?: string; // Позиция в колонке: задачи колонки сортируются по rank
+  priority: TaskPriority;
+  priorityRank: number; // Индекс priority в TASK_PRIORITIES, для сортировки
+  estimate?: ITaskEstimate;
   deadline: Date;
   assignee: {
     id: string;
     name: string;
     email: string;
   };
+  owner: Types.ObjectId | string;
+  board?: Types.ObjectId; // Доска, к которой относится задача
+  parent?: Types.ObjectId; // Родительская задача (для подзадач)
+  blockedBy: Types.ObjectId[]; // Задачи, которые блокируют эту
+  labels: Types.ObjectId[]; // Метки из каталога доски
+  recurrence?: IRecurrence;
+  checklist: IChecklistItem[];
+  attachments: IAttachment[];
   calendarEventId?: string;
+  calendarOwner?: Types.ObjectId; // Событие в календаре этого пользователя; нет — в общем
+  calendarId?: string;
   createdAt?: Date;
   updatedAt?: Date;
-  isHidden?: boolean;
+  isHidden?: boolean; // Задача в архиве
+  archivedAt?: Date;
+  archivedBy?: Types.ObjectId;
+  version: number; // Номер версии для оптимистичной блокировки
+  deletedAt?: Date; // Задача в корзине
+  deletedBy?: Types.ObjectId;
 }
 
 export interface CalendarEvent {
@@ -44,11 +121,3 @@ export interface TaskBoardState {
   loading: boolean;
   error: string | null;
 }
-
-export interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  isRead: boolean;
-  createdAt: string;
-}